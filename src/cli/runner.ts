@@ -2,14 +2,36 @@
 // src/cli/runner.ts
 import { parseArgs } from 'util';
 import path from 'path';
-import { ArchiveOps, ArchiveService, CompressionLevel } from '../index.js';
+import {
+    ArchiveOps,
+    ArchiveService,
+    ArchiveFormat,
+    CompressionLevel,
+    ConflictPolicy,
+    EntryTestStatus,
+    formatFromExtension,
+    type CompressOptions,
+    type EncryptionOptions,
+} from '../index.js';
 
 //#region TYPES
 
+/** Source selection options shared by compress and update */
+type SourceFilterOptions = Pick<CompressOptions, 'include' | 'exclude' | 'recursive' | 'skipHidden'>;
+
 interface ParsedArgs {
     values: {
         '7za'?: string;
         level?: string;
+        format?: string;
+        'password-env'?: string;
+        'encrypt-headers'?: boolean;
+        'volume-size'?: string;
+        'on-conflict'?: string;
+        include?: string[];
+        exclude?: string[];
+        'skip-hidden'?: boolean;
+        'no-recurse'?: boolean;
         concurrency?: string;
         help?: boolean;
     };
@@ -25,6 +47,15 @@ async function main(): Promise<void> {
         options: {
             '7za': { type: 'string', default: '7za' },
             'level': { type: 'string', default: '1' },
+            'format': { type: 'string' },
+            'password-env': { type: 'string' },
+            'encrypt-headers': { type: 'boolean', default: false },
+            'volume-size': { type: 'string' },
+            'on-conflict': { type: 'string' },
+            'include': { type: 'string', multiple: true },
+            'exclude': { type: 'string', multiple: true },
+            'skip-hidden': { type: 'boolean', default: false },
+            'no-recurse': { type: 'boolean', default: false },
             'concurrency': { type: 'string', short: 'c', default: '1' },
             'help': { type: 'boolean', short: 'h', default: false },
         },
@@ -39,22 +70,46 @@ async function main(): Promise<void> {
     const [command, ...args] = positionals;
     const execPath = values['7za'] ?? '7za';
 
+    // Password is read from an environment variable so it never appears in process listings
+    const password = readPassword(values['password-env']);
+    const encryption: EncryptionOptions | undefined = password
+        ? { password, encryptHeaders: values['encrypt-headers'] }
+        : undefined;
+    const sourceFilter: SourceFilterOptions = {
+        include: values.include,
+        exclude: values.exclude,
+        recursive: !values['no-recurse'],
+        skipHidden: values['skip-hidden'],
+    };
+
     try {
         switch (command) {
             case 'list':
-                await handleList(execPath, args);
+                await handleList(execPath, args, password);
+                break;
+            case 'info':
+                await handleInfo(execPath, args, password);
                 break;
             case 'decompress':
-                await handleDecompress(execPath, args);
+                await handleDecompress(execPath, args, password, parseConflictPolicy(values['on-conflict']));
                 break;
             case 'compress':
-                await handleCompress(execPath, args, parseInt(values.level ?? '1', 10));
+                await handleCompress(execPath, args, parseInt(values.level ?? '1', 10), parseFormat(values.format), encryption, parseSize(values['volume-size']), sourceFilter);
                 break;
             case 'extract':
-                await handleExtractSingle(execPath, args);
+                await handleExtractSingle(execPath, args, password, parseConflictPolicy(values['on-conflict']));
+                break;
+            case 'test':
+                await handleTest(execPath, args, password);
                 break;
             case 'update':
-                await handleUpdate(execPath, args);
+                await handleUpdate(execPath, args, parseFormat(values.format), sourceFilter);
+                break;
+            case 'delete':
+                await handleDelete(execPath, args);
+                break;
+            case 'rename':
+                await handleRename(execPath, args);
                 break;
             case 'queue-test':
                 await handleQueueTest(execPath, args, parseInt(values.concurrency ?? '1', 10));
@@ -77,7 +132,7 @@ async function main(): Promise<void> {
 
 //#region COMMAND HANDLERS
 
-async function handleList(execPath: string, args: string[]): Promise<void> {
+async function handleList(execPath: string, args: string[], password?: string): Promise<void> {
     if (args.length < 1) {
         console.error('Usage: list <archive>');
         process.exit(1);
@@ -88,13 +143,14 @@ async function handleList(execPath: string, args: string[]): Promise<void> {
     console.log(`Using 7za at: ${execPath}\n`);
 
     const ops = new ArchiveOps({ executablePath: execPath });
-    const result = await ops.listEntries(archivePath);
+    const result = await ops.listEntries(archivePath, { password });
 
+    console.log(`Format: ${result.format}`);
     console.log(`Found ${result.files.length} files:\n`);
 
     for (const file of result.files) {
         const sizeStr = formatSize(file.size).padStart(10);
-        const dateStr = file.date.toISOString().split('T')[0];
+        const dateStr = file.date ? file.date.toISOString().split('T')[0] : '-'.padEnd(10);
         console.log(`  ${sizeStr}  ${dateStr}  ${file.filename}`);
     }
 
@@ -102,7 +158,51 @@ async function handleList(execPath: string, args: string[]): Promise<void> {
     console.log(`Base path: ${result.basePath}`);
 }
 
-async function handleDecompress(execPath: string, args: string[]): Promise<void> {
+async function handleInfo(execPath: string, args: string[], password?: string): Promise<void> {
+    if (args.length < 1) {
+        console.error('Usage: info <archive>');
+        process.exit(1);
+    }
+
+    const archivePath = args[0];
+    console.log(`Archive: ${archivePath}`);
+    console.log(`Using 7za at: ${execPath}\n`);
+
+    const ops = new ArchiveOps({ executablePath: execPath });
+    const result = await ops.listEntries(archivePath, { password });
+    const info = result.archiveInfo;
+
+    console.log(`  Format:       ${result.format}${info?.type && info.type !== result.format ? ` (${info.type})` : ''}`);
+    console.log(`  Files:        ${result.files.length}`);
+    console.log(`  Total size:   ${formatSize(info?.totalSize ?? 0)}`);
+    if (info?.physicalSize !== undefined) {
+        console.log(`  Archive size: ${formatSize(info.physicalSize)}`);
+    }
+    if (info?.compressionRatio !== undefined) {
+        console.log(`  Ratio:        ${info.compressionRatio.toFixed(2)}:1`);
+    }
+    if (info?.method) {
+        console.log(`  Method:       ${info.method}`);
+    }
+    if (info?.solid !== undefined) {
+        console.log(`  Solid:        ${info.solid ? `yes (${info.blocks ?? '?'} blocks)` : 'no'}`);
+    }
+    if (info?.multivolume) {
+        console.log(`  Volumes:      ${info.volumes ?? '?'}`);
+    }
+    if (info?.comment) {
+        console.log(`  Comment:      ${info.comment}`);
+    }
+
+    console.log(`\nRuntime: ${result.runtime.toFixed(2)}s`);
+}
+
+async function handleDecompress(
+    execPath: string,
+    args: string[],
+    password?: string,
+    conflictPolicy?: ConflictPolicy
+): Promise<void> {
     if (args.length < 2) {
         console.error('Usage: decompress <archive> <destination>');
         process.exit(1);
@@ -114,16 +214,31 @@ async function handleDecompress(execPath: string, args: string[]): Promise<void>
     console.log(`Using 7za at: ${execPath}\n`);
 
     const ops = new ArchiveOps({ executablePath: execPath });
-    const result = await ops.decompress(archivePath, destPath, undefined, (progress, message) => {
-        process.stdout.write(`\r${message.padEnd(60)}`);
+    const result = await ops.decompress(archivePath, destPath, {
+        password,
+        conflictPolicy,
+        onProgress: (progress, message) => {
+            process.stdout.write(`\r${message.padEnd(60)}`);
+        },
     });
 
     console.log(`\n\nExtracted ${result.files.length} files`);
+    if (result.conflicts?.length) {
+        console.log(`Existing files (${conflictPolicy ?? ConflictPolicy.OVERWRITE}): ${result.conflicts.length}`);
+    }
     console.log(`Runtime: ${result.runtime.toFixed(2)}s`);
     console.log(`Base path: ${result.basePath}`);
 }
 
-async function handleCompress(execPath: string, args: string[], level: number): Promise<void> {
+async function handleCompress(
+    execPath: string,
+    args: string[],
+    level: number,
+    format?: ArchiveFormat,
+    encryption?: EncryptionOptions,
+    volumeSize?: number,
+    sourceFilter?: SourceFilterOptions
+): Promise<void> {
     if (args.length < 2) {
         console.error('Usage: compress <source1> [source2] ... <archive>');
         process.exit(1);
@@ -138,19 +253,44 @@ async function handleCompress(execPath: string, args: string[], level: number):
     sourcePaths.forEach(s => console.log(`  - ${s}`));
     console.log(`To: ${archivePath}`);
     console.log(`Level: ${compressionLevel} (${getLevelName(compressionLevel)})`);
+    console.log(`Format: ${format ?? '(from extension)'}`);
+    if (encryption) {
+        console.log(`Encryption: AES-256${encryption.encryptHeaders ? ' (headers encrypted)' : ''}`);
+    }
+    if (volumeSize !== undefined) {
+        console.log(`Volume size: ${formatSize(volumeSize)}`);
+    }
+    printSourceFilter(sourceFilter);
     console.log(`Using 7za at: ${execPath}\n`);
 
     const ops = new ArchiveOps({ executablePath: execPath });
-    const result = await ops.compress(sourcePaths, archivePath, compressionLevel, (progress, message) => {
-        process.stdout.write(`\r${message.padEnd(60)}`);
+    const result = await ops.compress(sourcePaths, archivePath, {
+        level: compressionLevel,
+        format,
+        encryption,
+        volumeSize,
+        ...sourceFilter,
+        onProgress: (progress, message) => {
+            process.stdout.write(`\r${message.padEnd(60)}`);
+        },
     });
 
-    console.log(`\n\nCreated archive: ${result.files[0]?.filename}`);
-    console.log(`Size: ${formatSize(result.files[0]?.size ?? 0)}`);
+    if (volumeSize !== undefined) {
+        console.log(`\n\nCreated ${result.files.length} volume(s):`);
+        result.files.forEach(f => console.log(`  ${f.filename}  ${formatSize(f.size)}`));
+    } else {
+        console.log(`\n\nCreated archive: ${result.files[0]?.filename}`);
+        console.log(`Size: ${formatSize(result.files[0]?.size ?? 0)}`);
+    }
     console.log(`Runtime: ${result.runtime.toFixed(2)}s`);
 }
 
-async function handleExtractSingle(execPath: string, args: string[]): Promise<void> {
+async function handleExtractSingle(
+    execPath: string,
+    args: string[],
+    password?: string,
+    conflictPolicy?: ConflictPolicy
+): Promise<void> {
     if (args.length < 3) {
         console.error('Usage: extract <archive> <entry-path> <destination>');
         process.exit(1);
@@ -163,13 +303,18 @@ async function handleExtractSingle(execPath: string, args: string[]): Promise<vo
     console.log(`Using 7za at: ${execPath}\n`);
 
     const ops = new ArchiveOps({ executablePath: execPath });
-    const result = await ops.extractSingle(archivePath, entryPath, destPath);
+    const result = await ops.extractSingle(archivePath, entryPath, destPath, { password, conflictPolicy });
 
     console.log(`Extracted to: ${result.basePath}`);
     console.log(`Runtime: ${result.runtime.toFixed(2)}s`);
 }
 
-async function handleUpdate(execPath: string, args: string[]): Promise<void> {
+async function handleUpdate(
+    execPath: string,
+    args: string[],
+    format?: ArchiveFormat,
+    sourceFilter?: SourceFilterOptions
+): Promise<void> {
     if (args.length < 2) {
         console.error('Usage: update <archive> <file1> [file2] ...');
         process.exit(1);
@@ -178,26 +323,102 @@ async function handleUpdate(execPath: string, args: string[]): Promise<void> {
     const [archivePath, ...sourceFiles] = args;
     console.log(`Updating: ${archivePath}`);
     console.log(`With files: ${sourceFiles.join(', ')}`);
+    printSourceFilter(sourceFilter);
     console.log(`Using 7za at: ${execPath}\n`);
 
     const ops = new ArchiveOps({ executablePath: execPath });
-    const result = await ops.update(archivePath, sourceFiles);
+    const result = await ops.update(archivePath, sourceFiles, { format, ...sourceFilter });
 
     console.log(`Updated archive: ${path.basename(archivePath)}`);
     console.log(`Runtime: ${result.runtime.toFixed(2)}s`);
 }
 
+async function handleDelete(execPath: string, args: string[]): Promise<void> {
+    if (args.length < 2) {
+        console.error('Usage: delete <archive> <entry1> [entry2] ...');
+        process.exit(1);
+    }
+
+    const [archivePath, ...entries] = args;
+    console.log(`Deleting from: ${archivePath}`);
+    console.log(`Entries: ${entries.join(', ')}`);
+    console.log(`Using 7za at: ${execPath}\n`);
+
+    const ops = new ArchiveOps({ executablePath: execPath });
+    const result = await ops.deleteEntries(archivePath, entries);
+
+    console.log(result.message);
+    console.log(`Runtime: ${result.runtime.toFixed(2)}s`);
+}
+
+async function handleRename(execPath: string, args: string[]): Promise<void> {
+    if (args.length < 3 || args.length % 2 === 0) {
+        console.error('Usage: rename <archive> <old1> <new1> [old2 new2] ...');
+        process.exit(1);
+    }
+
+    const [archivePath, ...pairs] = args;
+    const mapping: Record<string, string> = {};
+    for (let i = 0; i < pairs.length; i += 2) {
+        mapping[pairs[i]] = pairs[i + 1];
+    }
+
+    console.log(`Renaming in: ${archivePath}`);
+    for (const [oldName, newName] of Object.entries(mapping)) {
+        console.log(`  ${oldName} -> ${newName}`);
+    }
+    console.log(`Using 7za at: ${execPath}\n`);
+
+    const ops = new ArchiveOps({ executablePath: execPath });
+    const result = await ops.renameEntries(archivePath, mapping);
+
+    console.log(result.message);
+    console.log(`Runtime: ${result.runtime.toFixed(2)}s`);
+}
+
+async function handleTest(execPath: string, args: string[], password?: string): Promise<void> {
+    if (args.length < 1) {
+        console.error('Usage: test <archive>');
+        process.exit(1);
+    }
+
+    const archivePath = args[0];
+    console.log(`Testing: ${archivePath}`);
+    console.log(`Using 7za at: ${execPath}\n`);
+
+    const ops = new ArchiveOps({ executablePath: execPath });
+    const result = await ops.test(archivePath, {
+        password,
+        onProgress: (progress, message) => {
+            process.stdout.write(`\r${message.padEnd(60)}`);
+        },
+    });
+
+    console.log('\n');
+    for (const entry of result.tests ?? []) {
+        const status = entry.status === EntryTestStatus.OK ? 'OK' : `FAIL (${entry.message ?? entry.status})`;
+        console.log(`  ${status.padEnd(24)}  ${entry.filename}`);
+    }
+
+    console.log(`\n${result.message}`);
+    console.log(`Runtime: ${result.runtime.toFixed(2)}s`);
+
+    if (!result.success) {
+        process.exitCode = 1;
+    }
+}
+
 async function handleQueueTest(execPath: string, args: string[], concurrency: number): Promise<void> {
     if (args.length < 1) {
         console.error('Usage: queue-test <archive1> [archive2] ... [destination]');
-        console.error('  If destination is provided (not a .zip), archives are extracted there.');
+        console.error('  If destination is provided (not a .zip or .7z), archives are extracted there.');
         console.error('  Each archive extracts to: <destination>/<archive-basename>/');
         process.exit(1);
     }
 
-    // Check if last arg is a destination (not a .zip file)
+    // Check if last arg is a destination (not an archive file)
     const lastArg = args[args.length - 1];
-    const isDecompressMode = !lastArg.toLowerCase().endsWith('.zip');
+    const isDecompressMode = formatFromExtension(lastArg) === null;
 
     let archives: string[];
     let destBase: string | undefined;
@@ -310,15 +531,28 @@ Usage: npx tsx src/cli/runner.ts [options] <command> [args]
 
 Commands:
   list <archive>                       List archive contents
+  info <archive>                       Show archive format, sizes, compression ratio and solid blocks
   decompress <archive> <destination>   Extract archive to directory
   compress <src1> [src2...] <archive>  Compress files/dirs to archive
   extract <archive> <entry> <dest>     Extract single file from archive
   update <archive> <file1> [...]       Add/update files in archive
+  delete <archive> <entry1> [...]      Delete entries (files or directories) from archive
+  rename <archive> <old> <new> [...]   Rename entries in archive (pairs of old/new paths)
+  test <archive>                       Test archive integrity without extracting
   queue-test <archive1> [...] [dest]   Test queue (list mode, or decompress if dest provided)
 
 Options:
   --7za <path>        Path to 7za executable (default: 7za)
   --level <0|1|5>     Compression level: 0=store, 1=fast, 5=normal (default: 1)
+  --format <zip|7z>   Archive format for compress/update (default: from extension)
+  --password-env <var> Read archive password from this environment variable
+  --encrypt-headers   Encrypt entry names too when compressing with a password (.7z only)
+  --volume-size <size> Split compressed archive into volumes (e.g. 500k, 100m, 4g)
+  --on-conflict <policy> Existing files when extracting: overwrite, skip, rename, fail (default: overwrite)
+  --include <glob>    Only add matching files with compress/update (repeatable)
+  --exclude <glob>    Leave out matching files and directories with compress/update (repeatable)
+  --skip-hidden       Leave out hidden/system files (.DS_Store, Thumbs.db, ...) with compress/update
+  --no-recurse        Add only the files directly inside source directories
   -c, --concurrency   Max concurrent jobs for queue-test (default: 1)
   -h, --help          Show this help message
 
@@ -326,6 +560,9 @@ Examples:
   # List archive contents
   npx tsx src/cli/runner.ts list ./test.zip
 
+  # Show format, compression ratio and solid blocks
+  npx tsx src/cli/runner.ts info ./archive.7z
+
   # Extract with custom 7za path
   npx tsx src/cli/runner.ts --7za="C:/Program Files/7-Zip/7za.exe" decompress ./test.zip ./output
 
@@ -338,9 +575,34 @@ Examples:
   # Compress with store level (no compression, fastest)
   npx tsx src/cli/runner.ts --level=0 compress ./source ./output.zip
 
+  # Compress a project without temp files, build output and OS metadata
+  npx tsx src/cli/runner.ts --exclude="*.tmp" --exclude="source/build" --skip-hidden compress ./source ./output.zip
+
+  # Compress to 7z (LZMA2) for long-term storage
+  npx tsx src/cli/runner.ts --level=5 compress ./source ./output.7z
+
   # Extract single file
   npx tsx src/cli/runner.ts extract ./archive.zip "folder/file.txt" ./output
 
+  # Extract without touching existing files (fails before extracting if any exist)
+  npx tsx src/cli/runner.ts --on-conflict=fail decompress ./archive.zip ./output
+
+  # Compress with AES-256 and encrypted headers, password from $ARCHIVE_PASSWORD
+  npx tsx src/cli/runner.ts --password-env=ARCHIVE_PASSWORD --encrypt-headers compress ./source ./secure.7z
+
+  # Delete a directory and a file from an archive
+  npx tsx src/cli/runner.ts delete ./archive.zip "logs" "notes.txt"
+
+  # Rename an entry inside an archive
+  npx tsx src/cli/runner.ts rename ./archive.7z "docs/old.md" "docs/new.md"
+
+  # Split into 100 MB volumes (backup.zip.001, .002, ...), then extract from the first volume
+  npx tsx src/cli/runner.ts --volume-size=100m compress ./source ./backup.zip
+  npx tsx src/cli/runner.ts decompress ./backup.zip.001 ./output
+
+  # Test archive integrity (exit code 1 if any entry fails)
+  npx tsx src/cli/runner.ts test ./archive.zip
+
   # Test queue - list mode (concurrency=2)
   npx tsx src/cli/runner.ts -c 2 queue-test ./a.zip ./b.zip ./c.zip
 
@@ -356,6 +618,54 @@ function formatSize(bytes: number): string {
     return `${(bytes / Math.pow(1024, i)).toFixed(i > 0 ? 1 : 0)} ${units[i]}`;
 }
 
+function printSourceFilter(filter?: SourceFilterOptions): void {
+    if (filter?.include) console.log(`Include: ${filter.include.join(', ')}`);
+    if (filter?.exclude) console.log(`Exclude: ${filter.exclude.join(', ')}`);
+    if (filter?.recursive === false) console.log('Subdirectories: skipped');
+    if (filter?.skipHidden) console.log('Hidden/system files: skipped');
+}
+
+function readPassword(envName?: string): string | undefined {
+    if (envName === undefined) return undefined;
+    const password = process.env[envName];
+    if (!password) {
+        console.error(`Environment variable ${envName} is not set`);
+        process.exit(1);
+    }
+    return password;
+}
+
+function parseFormat(value?: string): ArchiveFormat | undefined {
+    if (value === undefined) return undefined;
+    const format = Object.values(ArchiveFormat).find(f => f === value.toLowerCase());
+    if (!format) {
+        console.error(`Unknown format: ${value}`);
+        process.exit(1);
+    }
+    return format;
+}
+
+function parseConflictPolicy(value?: string): ConflictPolicy | undefined {
+    if (value === undefined) return undefined;
+    const policy = Object.values(ConflictPolicy).find(p => p === value.toLowerCase());
+    if (!policy) {
+        console.error(`Unknown conflict policy: ${value} (use overwrite, skip, rename or fail)`);
+        process.exit(1);
+    }
+    return policy;
+}
+
+function parseSize(value?: string): number | undefined {
+    if (value === undefined) return undefined;
+    const match = value.trim().match(/^(\d+)\s*([kmg]?)b?$/i);
+    if (!match) {
+        console.error(`Invalid size: ${value} (use e.g. 500k, 100m, 4g)`);
+        process.exit(1);
+    }
+    const multipliers: Record<string, number> = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 };
+    return parseInt(match[1], 10) * multipliers[match[2].toLowerCase()];
+}
+
 function getLevelName(level: CompressionLevel): string {
     switch (level) {
         case CompressionLevel.STORE: return 'store';
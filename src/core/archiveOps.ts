@@ -1,16 +1,40 @@
 // src/core/archiveOps.ts
 import { spawn, type ChildProcessWithoutNullStreams, type SpawnOptions } from 'child_process';
+import { randomBytes } from 'crypto';
 import { promises as fs, statSync } from 'fs';
 import path from 'path';
+import { PassThrough, type Readable } from 'stream';
 
 import {
     type ArchiveOpsConfig,
     type ArchiveOpResult,
+    type ArchiveInfo,
+    type MtimeMismatch,
     type FileInfo,
+    type FileConflict,
+    type FilenameCheckOptions,
     type ProgressCallback,
+    type ProgressEventCallback,
+    type CompressOptions,
+    type DecompressOptions,
+    type EncryptionOptions,
+    type EditOptions,
+    type EntrySelector,
+    type ListOptions,
+    type OperationControls,
+    type TestOptions,
+    type UpdateOptions,
+    ArchiveFormat,
     ArchiveOpType,
     ProcessStatus,
+    ProgressPhase,
     CompressionLevel,
+    ConflictPolicy,
+    EntryKind,
+    EntryTestStatus,
+    LinkPolicy,
+    MtimePolicy,
+    TimeZonePolicy,
 } from '../types/archive.types.js';
 
 import {
@@ -20,12 +44,106 @@ import {
     ExecutableNotFoundError,
     UnsupportedFormatError,
     OperationInProgressError,
+    OperationCancelledError,
+    ProcessTimeoutError,
+    FileConflictError,
+    MissingVolumeError,
     createErrorFromExitCode,
+    createErrorFromFsError,
 } from '../types/errors.types.js';
 
-import { validateAllEntries, normalizePath } from '../utils/pathValidation.js';
-import { parseSltString, hasEncryptedFiles } from '../utils/sltParser.js';
+import { validateAllEntries, validateEntryPath, validateLinkEntries, normalizePath } from '../utils/pathValidation.js';
+import {
+    detectFormat,
+    formatFromType,
+    formatExtensions,
+    formatSwitch,
+    resolveWriteFormat,
+    READABLE_FORMATS,
+} from '../utils/archiveFormat.js';
+import { parseSltString, parseSltEntries, parseSltArchiveType, hasEncryptedFiles, type SltParseOptions } from '../utils/sltParser.js';
+import { createTestOutputParser } from '../utils/testParser.js';
+import {
+    createProgressTracker,
+    createScanSummaryReader,
+    type ProgressTracker,
+    type ProgressTotals,
+} from '../utils/progress.js';
+import {
+    volumeIndex,
+    volumePath,
+    volumeBasePath,
+    listVolumes,
+    findMissingVolumes,
+    findTruncatedVolume,
+} from '../utils/volumes.js';
+import { killProcessTree } from '../utils/processTree.js';
+import {
+    findIncompleteFiles,
+    findFreePath,
+    arrangeStagedFiles,
+    commitStagedFiles,
+    removeStagingArea,
+} from '../utils/staging.js';
+import {
+    hasSourceFilter,
+    selectSources,
+    type SourceFilter,
+    type SourceRoot,
+} from '../utils/sourceFilter.js';
+import { checkExtractionLimits, verifyExtractionLimits } from '../utils/extractionLimits.js';
+import { ensureFreeSpace, verifyDiskSpaceCheck } from '../utils/diskSpace.js';
+import { buildCommandLine, removeListFiles, verifyOutputDir, type SevenZipCommand } from '../utils/commandLine.js';
+import { selectEntries } from '../utils/entrySelection.js';
+
+//#region TYPES
+
+/** Outcome of a finished 7za process */
+interface ProcessResult {
+    exitCode: number;
+    /** Collected stdout (empty when an onStdout handler consumes it) */
+    stdout: string;
+    stderr: string;
+}
+
+/** Options that choose the entry names sources are stored under */
+type EntryNaming = Pick<CompressOptions, 'baseDir' | 'prefix' | 'entryNames'>;
+
+/** Where an extracted entry goes, relative to the target directory */
+interface EntryPlacement {
+    file: FileInfo;
+    /** '/'-separated path below the target */
+    relativePath: string;
+}
+
+/** Where the sources of a compress or update go in the archive */
+interface SourceLayout {
+    roots: SourceRoot[];
+    /** Directory 7za runs in (baseDir), with sources passed relative to it */
+    cwd?: string;
+    /** Stored/final entry name pairs applied with 7za rn after the sources are added */
+    renames: [string, string][];
+}
+
+//#endregion
+
+//#region CONSTANTS
+
+/** 7za overwrite switches per conflict policy (FAIL never overwrites files created after the check) */
+const CONFLICT_SWITCHES: Record<ConflictPolicy, string> = {
+    [ConflictPolicy.OVERWRITE]: '-aoa',
+    [ConflictPolicy.SKIP]: '-aos',
+    [ConflictPolicy.RENAME]: '-aou',
+    [ConflictPolicy.FAIL]: '-aos',
+};
+
+/** Exit code reported for a 7za process killed by a signal (maps to USER_ABORTED) */
+const EXIT_CODE_KILLED = 255;
+
+/** 7za listing with technical details (-slt), one block of 'Key = Value' lines per entry */
+const LIST_COMMAND: SevenZipCommand = { command: 'l', switches: ['-slt'] };
 
+//#endregion
 
 /**
  * ArchiveOps: Worker class for archive operations via 7za CLI.
@@ -41,6 +159,12 @@ export class ArchiveOps {
     private activeOp: ArchiveOpType = ArchiveOpType.UNDEFINED;
     private startTime: number = 0;
     private currentArchivePath: string = '';
+    private signal: AbortSignal | undefined;
+    /** Set when the operation is cancelled or times out; the operation rejects with it */
+    private abortError: ArchiveError | null = null;
+    private timeoutTimer: NodeJS.Timeout | null = null;
+    private stallTimeoutMs: number = 0;
+    private tracker: ProgressTracker | null = null;
 
     //#endregion
 
@@ -56,20 +180,28 @@ export class ArchiveOps {
 
     /**
      * Lists all entries in an archive using -slt format for reliable parsing.
-     * Detects encrypted archives and throws EncryptedArchiveError.
+     * Entries are parsed while 7za runs and passed to options.onEntry as they arrive.
+     * Directories are left out unless options.detailed is set, and ZIP/7z link targets unless options.linkTargets is.
+     * The result's archiveInfo holds the archive-level metadata from the listing header.
+     * Detects encrypted archives and throws EncryptedArchiveError unless a password is given.
      */
-    public async listEntries(archivePath: string): Promise<ArchiveOpResult> {
+    public async listEntries(archivePath: string, options?: ListOptions): Promise<ArchiveOpResult> {
         this.lastMessage = '';
         this.currentArchivePath = archivePath;
+        const tracker = this.createTracker(undefined, options?.onProgressEvent);
 
         // Verify no operation is in progress
         if (this.activeOp !== ArchiveOpType.UNDEFINED) {
             throw new OperationInProgressError(ArchiveOpType[this.activeOp]);
         }
 
-        // Validate archive path
+        // Validate archive path and detect format
         const fullArchivePath = path.resolve(archivePath);
-        await this.verifyArchive(fullArchivePath);
+        const format = await this.verifyArchive(fullArchivePath, options, tracker);
+        const password = options?.password;
+        this.verifyPassword(password);
+
+        this.attachAbortControls(options, tracker);
 
         // Update state
         this.activeOp = ArchiveOpType.LIST;
@@ -77,74 +209,141 @@ export class ArchiveOps {
         this.lastMessage = 'Listing archive contents...';
         this.startTime = Date.now();
 
-        return new Promise((resolve, reject) => {
-            try {
-                // 7za args: l=list, -slt=technical listing format
-                const args = ['l', '-slt', fullArchivePath];
-                let stderrBuffer = '';
+        try {
+            tracker.setPhase(ProgressPhase.LISTING);
+
+            const files: FileInfo[] = [];
+            let archiveInfo: ArchiveInfo | undefined;
+            const parseOptions: SltParseOptions = { detailed: options?.detailed, onArchiveInfo: (info) => { archiveInfo = info; } };
+            for await (const file of this.streamEntries(fullArchivePath, format, password, parseOptions)) {
+                this.throwIfAborted();
+                files.push(file);
+                tracker.countEntry(file.filename);
+                options?.onEntry?.(file);
+            }
 
-                this.process = this.spawnProcess(args);
-                let stdoutBuffer = '';
+            // Check for encrypted files
+            if (!password && hasEncryptedFiles(files)) {
+                throw new EncryptedArchiveError(fullArchivePath);
+            }
 
-                this.process.stdout.on('data', (data: Buffer) => {
-                    if (this.status <= 0) return;
-                    stdoutBuffer += data.toString();
-                });
-
-                this.process.stderr.on('data', (data: Buffer) => {
-                    stderrBuffer += data.toString();
-                });
-
-                this.process.on('error', (error: Error) => {
-                    reject(this.createSpawnError(error));
-                });
-
-                this.process.on('close', (code: number | null) => {
-                    const exitCode = code ?? 0;
-
-                    // Exit code 0 = success
-                    if (exitCode === 0) {
-                        const files = parseSltString(stdoutBuffer);
-
-                        // Check for encrypted files
-                        if (hasEncryptedFiles(files)) {
-                            this.cleanup();
-                            reject(new EncryptedArchiveError(fullArchivePath));
-                            return;
-                        }
-
-                        resolve(this.createSuccessResult(
-                            `Listed ${files.length} entries in '${path.basename(archivePath)}'.`,
-                            files,
-                            fullArchivePath,
-                            exitCode
-                        ));
-                    } else {
-                        this.cleanup();
-                        reject(createErrorFromExitCode(exitCode, fullArchivePath, stderrBuffer));
-                    }
-                });
+            if (options?.linkTargets) {
+                await this.readLinkTargets(files, files, fullArchivePath, format, password);
+            }
+            tracker.complete(`Listed ${files.length} entries.`);
 
-            } catch (error) {
-                this.cleanup();
-                reject(error instanceof Error ? error : new Error(String(error)));
+            // A tar.gz header describes the decompressed tar stream, which has no size on disk
+            if (archiveInfo && format === ArchiveFormat.TAR_GZIP) {
+                const { size } = await fs.stat(fullArchivePath);
+                archiveInfo.physicalSize = size;
+                archiveInfo.compressionRatio = size > 0 ? Math.round((archiveInfo.totalSize / size) * 100) / 100 : undefined;
             }
-        });
+
+            const result = this.createSuccessResult(
+                `Listed ${files.length} entries in '${path.basename(archivePath)}'.`,
+                files,
+                fullArchivePath,
+                0,
+                format
+            );
+            return { ...result, archiveInfo };
+        } catch (error) {
+            this.cleanup();
+            throw error instanceof Error ? error : new Error(String(error));
+        }
+    }
+
+    /**
+     * Lists entries as an async iterable, yielding each entry as soon as 7za emits it.
+     * Only the entries not yet consumed are buffered, so memory stays bounded for huge archives.
+     * Breaking out of the loop stops 7za. Throws EncryptedArchiveError at the first encrypted
+     * entry unless a password is given (entries before it have already been yielded).
+     * Links only have a linkTarget where the listing names it (tar): options.linkTargets is ignored,
+     * as reading a ZIP or 7z link's target takes another 7za run while this one is still listing.
+     */
+    public async *listEntriesStream(archivePath: string, options?: ListOptions): AsyncGenerator<FileInfo, void, undefined> {
+        this.lastMessage = '';
+        this.currentArchivePath = archivePath;
+        const tracker = this.createTracker(undefined, options?.onProgressEvent);
+
+        // Verify no operation is in progress
+        if (this.activeOp !== ArchiveOpType.UNDEFINED) {
+            throw new OperationInProgressError(ArchiveOpType[this.activeOp]);
+        }
+
+        // Validate archive path and detect format
+        const fullArchivePath = path.resolve(archivePath);
+        const format = await this.verifyArchive(fullArchivePath, options, tracker);
+        const password = options?.password;
+        this.verifyPassword(password);
+
+        this.attachAbortControls(options, tracker);
+
+        // Update state
+        this.activeOp = ArchiveOpType.LIST;
+        this.status = ProcessStatus.RUNNING;
+        this.lastMessage = 'Listing archive contents...';
+        this.startTime = Date.now();
+
+        tracker.setPhase(ProgressPhase.LISTING);
+
+        let count = 0;
+        try {
+            for await (const file of this.streamEntries(fullArchivePath, format, password, { detailed: options?.detailed })) {
+                this.throwIfAborted();
+                if (!password && file.encrypted) {
+                    throw new EncryptedArchiveError(fullArchivePath);
+                }
+
+                count++;
+                tracker.countEntry(file.filename);
+                options?.onEntry?.(file);
+                yield file;
+            }
+            tracker.complete(`Listed ${count} entries.`);
+
+            this.status = ProcessStatus.SUCCESS;
+            this.lastMessage = `Listed ${count} entries in '${path.basename(archivePath)}'.`;
+        } finally {
+            // Also runs when the consumer stops early, killing 7za
+            this.cleanup();
+        }
     }
 
     /**
      * Extracts archive contents to target directory.
-     * Validates paths for traversal attacks before extraction.
+     * Accepts either a file list or a DecompressOptions object as the third argument.
+     * Validates paths for traversal attacks before extraction; a target path with '*' or '?'
+     * throws INVALID_PATH.
+     * With options.staged, files reach the target only once the whole extraction succeeded.
      */
     public async decompress(
         archivePath: string,
         targetPath: string,
-        fileList?: string[],
+        fileListOrOptions?: string[] | DecompressOptions,
         onProgress?: ProgressCallback
     ): Promise<ArchiveOpResult> {
         this.lastMessage = '';
         this.currentArchivePath = archivePath;
 
+        const options: DecompressOptions = Array.isArray(fileListOrOptions)
+            ? { fileList: fileListOrOptions }
+            : fileListOrOptions ?? {};
+        const {
+            fileList,
+            select,
+            password,
+            staged,
+            conflictPolicy = ConflictPolicy.OVERWRITE,
+            linkPolicy = LinkPolicy.EXTRACT,
+            mtimePolicy = MtimePolicy.KEEP,
+            stripComponents = 0,
+            flatten = false,
+        } = options;
+        const limits = { ...this.config.extractionLimits, ...options.limits };
+        const diskSpaceCheck = { ...this.config.diskSpaceCheck, ...options.diskSpaceCheck };
+        const tracker = this.createTracker(options.onProgress ?? onProgress, options.onProgressEvent);
+
         // Verify no operation is in progress
         if (this.activeOp !== ArchiveOpType.UNDEFINED) {
             throw new OperationInProgressError(ArchiveOpType[this.activeOp]);
@@ -155,24 +354,47 @@ export class ArchiveOps {
         const fullTargetPath = path.resolve(targetPath);
         const srcFilename = path.basename(fullArchivePath);
 
-        // Validate archive
-        await this.verifyArchive(fullArchivePath);
-
-        // Ensure target directory exists
-        await this.ensureDirectoryExists(fullTargetPath);
-
-        // Get file list and validate paths BEFORE extraction
-        const listResult = await this.listEntriesInternal(fullArchivePath);
-        if (listResult.files.length === 0) {
+        // Validate archive and detect format
+        const format = await this.verifyArchive(fullArchivePath, options, tracker);
+        this.verifyPassword(password);
+        if (!(conflictPolicy in CONFLICT_SWITCHES)) {
             throw new ArchiveError(
-                `Cannot decompress empty archive: ${srcFilename}`,
-                ArchiveErrorCode.EMPTY_ARCHIVE,
-                { archivePath: fullArchivePath }
+                `Unknown conflict policy: ${conflictPolicy}`,
+                ArchiveErrorCode.INVALID_OPTIONS,
+                { conflictPolicy }
+            );
+        }
+        if (!Object.values(LinkPolicy).includes(linkPolicy)) {
+            throw new ArchiveError(
+                `Unknown link policy: ${linkPolicy}`,
+                ArchiveErrorCode.INVALID_OPTIONS,
+                { linkPolicy }
+            );
+        }
+        if (!Object.values(MtimePolicy).includes(mtimePolicy)) {
+            throw new ArchiveError(
+                `Unknown mtime policy: ${mtimePolicy}`,
+                ArchiveErrorCode.INVALID_OPTIONS,
+                { mtimePolicy }
+            );
+        }
+        if (!Number.isInteger(stripComponents) || stripComponents < 0) {
+            throw new ArchiveError(
+                `stripComponents must be a non-negative integer: ${stripComponents}`,
+                ArchiveErrorCode.INVALID_OPTIONS,
+                { stripComponents }
             );
         }
+        verifyExtractionLimits(limits);
+        verifyDiskSpaceCheck(diskSpaceCheck);
+        verifyOutputDir(fullTargetPath);
 
-        // Security: validate all entry paths for traversal attacks
-        validateAllEntries(listResult.files, fullArchivePath);
+        // Files that change paths are extracted into the staging area and moved from there
+        const remap = stripComponents > 0 || flatten;
+        const useStaging = staged || remap;
+
+        // Time limits and cancellation cover the listing too, so they start once options are valid
+        this.attachAbortControls(options, tracker);
 
         // Reset state for decompress operation
         this.activeOp = ArchiveOpType.DECOMPRESS;
@@ -180,79 +402,200 @@ export class ArchiveOps {
         this.lastMessage = `Extracting '${srcFilename}' to '${targetPath}'`;
         this.startTime = Date.now();
 
-        return new Promise((resolve, reject) => {
-            try {
-                let progress = 0;
-                let stderrBuffer = '';
+        // Staging area: a hidden sibling of the target, so moving files into place is a rename
+        const stagingRoot = this.createTempPath(fullTargetPath);
+        const stagingDir = path.join(stagingRoot, 'staged');
+        const backupDir = path.join(stagingRoot, 'replaced');
+        const extractedDir = path.join(stagingRoot, 'extracted');
+        let createdDir: string | undefined;
 
-                // 7za args: x=extract with paths, -aoa=overwrite all, -bsp1=progress to stdout
-                const args = ['x', '-aoa', '-bsp1', '-bso0', fullArchivePath, `-o${fullTargetPath}`];
+        try {
+            // Get file list and validate paths BEFORE extraction
+            tracker.setPhase(ProgressPhase.LISTING);
+            const listResult = await this.listEntriesInternal(fullArchivePath, format, password);
+            if (listResult.files.length === 0) {
+                throw new ArchiveError(
+                    `Cannot decompress empty archive: ${srcFilename}`,
+                    ArchiveErrorCode.EMPTY_ARCHIVE,
+                    { archivePath: fullArchivePath }
+                );
+            }
 
-                // Add specific files if provided
-                if (fileList && fileList.length > 0) {
-                    args.push(...fileList);
-                }
+            // Security: validate all entry paths for traversal attacks
+            tracker.setPhase(ProgressPhase.VALIDATING, { filesTotal: listResult.files.length });
+            validateAllEntries(listResult.files, fullArchivePath);
 
-                this.process = this.spawnProcess(args);
+            // Resolve the selection against the listing, so entries that don't exist are reported
+            let selectedFiles = listResult.files;
+            if (fileList) {
+                this.verifyEntriesExist(listResult.files, fileList, fullArchivePath);
+                selectedFiles = selectedFiles.filter(file => fileList.some(entry => this.isEntryOrChild(file.filename, entry)));
+            }
+            if (select) {
+                selectedFiles = this.selectMatchingEntries(selectedFiles, select, fullArchivePath);
+            }
 
-                this.process.stdout.on('data', (data: Buffer) => {
-                    if (this.status <= 0) return;
+            // Security: stop zip bombs and oversized archives before anything is written
+            const streamSize = format === ArchiveFormat.TAR_GZIP || format === ArchiveFormat.GZIP
+                ? (await fs.stat(fullArchivePath)).size
+                : undefined;
+            checkExtractionLimits(listResult.files, selectedFiles, limits, fullArchivePath, streamSize);
+
+            // Security: links are refused, left out, or checked where they point (below, once placed)
+            const links = new Set(selectedFiles.filter(file => file.kind === EntryKind.SYMLINK || file.kind === EntryKind.HARDLINK));
+            const skipLinks = links.size > 0 && linkPolicy === LinkPolicy.SKIP;
+            if (links.size > 0 && linkPolicy === LinkPolicy.REFUSE) {
+                const names = [...links].map(link => link.filename);
+                throw new ArchiveError(
+                    `Archive contains ${names.length} link(s): ${names.slice(0, 5).join(', ')}${names.length > 5 ? ', ...' : ''}`,
+                    ArchiveErrorCode.INVALID_PATH,
+                    { archivePath: fullArchivePath, links: names }
+                );
+            }
+            if (skipLinks) {
+                selectedFiles = selectedFiles.filter(file => !links.has(file));
+            } else if (links.size > 0) {
+                await this.readLinkTargets([...links], listResult.files, fullArchivePath, format, password);
+            }
 
-                    const message = data.toString();
-                    const progressMatch = message.match(/(\d+)%/);
-                    if (progressMatch) {
-                        progress = parseInt(progressMatch[1], 10);
-                    }
+            // Checks that depend on where files end up (after stripping or flattening)
+            const placements = this.placeEntries(selectedFiles, stripComponents, flatten);
+            const placedFiles = placements.map(({ file, relativePath }) => ({ ...file, filename: relativePath }));
+            if (links.size > 0 && !skipLinks) {
+                validateLinkEntries(placedFiles, fullArchivePath);
+            }
+            if (options.filenameChecks) {
+                this.verifyPortableNames(placedFiles, options.filenameChecks, fullArchivePath, fullTargetPath);
+            }
 
-                    const newMessage = `Extracting '${srcFilename}'...${progress}%`;
-                    if (newMessage !== this.lastMessage) {
-                        this.lastMessage = newMessage;
-                        onProgress?.(progress, this.lastMessage);
-                    }
-                });
-
-                this.process.stderr.on('data', (data: Buffer) => {
-                    stderrBuffer += data.toString();
-                });
-
-                this.process.on('error', (error: Error) => {
-                    reject(this.createSpawnError(error));
-                });
-
-                this.process.on('close', (code: number | null) => {
-                    const exitCode = code ?? 0;
-
-                    if (exitCode === 0) {
-                        onProgress?.(100, `Extracted '${srcFilename}'.`);
-                        resolve(this.createSuccessResult(
-                            `Extracted '${srcFilename}' to '${targetPath}'.`,
-                            listResult.files,
-                            fullTargetPath,
-                            exitCode
-                        ));
-                    } else {
-                        this.cleanup();
-                        reject(createErrorFromExitCode(exitCode, fullArchivePath, stderrBuffer));
-                    }
-                });
+            // Pre-flight: report targets that already exist, and stop here if conflicts are not allowed
+            const conflicts = await this.findConflicts(placements, fullTargetPath);
+            if (conflicts.length > 0 && conflictPolicy === ConflictPolicy.FAIL) {
+                throw new FileConflictError(fullArchivePath, fullTargetPath, conflicts);
+            }
+
+            // Fail fast instead of running out of space midway
+            const extractionSize = this.extractionSize(placements, conflicts, conflictPolicy, useStaging);
+            await ensureFreeSpace(fullTargetPath, extractionSize, diskSpaceCheck);
 
-            } catch (error) {
-                this.cleanup();
-                reject(error instanceof Error ? error : new Error(String(error)));
+            // Ensure target directory exists once all checks passed (staged extraction creates it when committing)
+            if (!useStaging) {
+                await this.ensureDirectoryExists(fullTargetPath);
             }
-        });
+
+            // Without staging, 7za decides while extracting; its choices are predicted from the listing
+            const redirected = !useStaging && conflictPolicy !== ConflictPolicy.OVERWRITE
+                ? await this.predictRedirects(placements, conflicts, fullTargetPath, conflictPolicy)
+                : new Map<string, string | null>();
+
+            if (useStaging) {
+                createdDir = await this.ensureDirectoryExists(path.dirname(fullTargetPath));
+                await this.ensureDirectoryExists(stagingDir);
+            }
+
+            tracker.setPhase(
+                ProgressPhase.EXTRACTING,
+                {
+                    bytesTotal: selectedFiles.reduce((sum, file) => sum + file.size, 0),
+                    filesTotal: selectedFiles.length,
+                },
+                percent => `Extracting '${srcFilename}'...${percent}%`
+            );
+
+            // 7za args: x=extract with paths, -ao=overwrite mode, -bsp1=progress to stdout
+            const command: SevenZipCommand = {
+                command: 'x',
+                switches: [
+                    CONFLICT_SWITCHES[conflictPolicy],
+                    '-bsp1',
+                    '-bso0',
+                ],
+                outputDir: remap ? extractedDir : useStaging ? stagingDir : fullTargetPath,
+                // A selection can be thousands of entries, so 7za reads their names from a list file
+                names: select || skipLinks ? selectedFiles.map(file => file.filename) : fileList,
+                useListFile: select !== undefined || skipLinks,
+            };
+
+            const { exitCode, stderr } = await this.runReader(command, fullArchivePath, format, (message) => {
+                if (this.status <= 0) return;
+                tracker.push(message);
+            }, password);
+
+            if (exitCode !== 0) {
+                throw this.createProcessError(exitCode, fullArchivePath, stderr, password);
+            }
+
+            if (remap) {
+                const moves = placements.map(({ file, relativePath }) => ({ from: file.filename, to: relativePath }));
+                await arrangeStagedFiles(extractedDir, stagingDir, moves);
+            }
+
+            if (useStaging) {
+                const committed = await this.commitStaged(placedFiles, stagingDir, fullTargetPath, backupDir, conflictPolicy, tracker);
+                committed.forEach((actualPath, plannedPath) => redirected.set(plannedPath, actualPath));
+                await fs.rm(stagingRoot, { recursive: true, force: true });
+            }
+
+            // Report where each entry ended up
+            const extractedPaths = new Map<string, string | null>();
+            for (const { file, relativePath } of placements) {
+                const plannedPath = path.join(fullTargetPath, relativePath);
+                // undefined: extracted where planned; null: an existing file was kept
+                const actualPath = redirected.get(plannedPath);
+                extractedPaths.set(file.filename, actualPath === undefined ? plannedPath : actualPath);
+            }
+            const files = (fileList || select || skipLinks ? selectedFiles : listResult.files).map((file) => {
+                const extractedPath = extractedPaths.get(file.filename);
+                return extractedPath ? { ...file, extractedPath } : file;
+            });
+            const mtimeMismatches = mtimePolicy !== MtimePolicy.KEEP
+                ? await this.applyMtimePolicy(files, mtimePolicy)
+                : undefined;
+
+            tracker.complete(`Extracted '${srcFilename}'.`);
+            const result = this.createSuccessResult(
+                `Extracted '${srcFilename}' to '${targetPath}'.`,
+                files,
+                fullTargetPath,
+                exitCode,
+                format
+            );
+            return { ...result, conflicts, ...(mtimePolicy === MtimePolicy.VERIFY ? { mtimeMismatches } : {}) };
+        } catch (error) {
+            this.cleanup();
+            if (useStaging) {
+                await fs.rm(extractedDir, { recursive: true, force: true }).catch(() => {});
+                await removeStagingArea(stagingRoot, stagingDir, backupDir);
+                if (createdDir) {
+                    await fs.rm(createdDir, { recursive: true, force: true }).catch(() => {});
+                }
+            }
+            throw error instanceof Error ? error : new Error(String(error));
+        }
     }
 
     /**
-     * Creates a ZIP archive from source files.
+     * Creates a ZIP or 7z archive from source files, optionally AES-256 encrypted.
+     * Accepts either a compression level or a CompressOptions object as the third argument.
+     * An existing archive at archivePath is replaced once the new one is complete (use update to add
+     * to it); with options.inPlace, 7za writes to the archive directly and adds to an existing one.
      */
     public async compress(
         sourceFiles: string[],
         archivePath: string,
-        level: CompressionLevel = CompressionLevel.FAST,
+        levelOrOptions: CompressionLevel | CompressOptions = CompressionLevel.FAST,
         onProgress?: ProgressCallback
     ): Promise<ArchiveOpResult> {
         this.lastMessage = '';
+        this.currentArchivePath = archivePath;
+
+        const options: CompressOptions = typeof levelOrOptions === 'object'
+            ? levelOrOptions
+            : { level: levelOrOptions };
+        const level = options.level ?? CompressionLevel.FAST;
+        const diskSpaceCheck = { ...this.config.diskSpaceCheck, ...options.diskSpaceCheck };
+        onProgress = options.onProgress ?? onProgress;
+        const tracker = this.createTracker(onProgress, options.onProgressEvent);
 
         // Verify no operation is in progress
         if (this.activeOp !== ArchiveOpType.UNDEFINED) {
@@ -264,11 +607,39 @@ export class ArchiveOps {
         const resolvedSourceFiles = sourceFiles.map(f => path.resolve(f));
         const archiveFilename = path.basename(fullArchivePath);
 
-        // Verify archive has .zip extension
-        const ext = path.extname(fullArchivePath).toLowerCase();
-        if (ext !== '.zip') {
-            throw new UnsupportedFormatError(fullArchivePath, ext || '(none)');
+        // Resolve output format (explicit or from extension)
+        const format = resolveWriteFormat(fullArchivePath, options.format);
+
+        // Validate encryption settings
+        const encryption = options.encryption;
+        if (encryption) {
+            this.verifyPassword(encryption.password);
+            if (!encryption.password) {
+                throw new ArchiveError(
+                    'Encryption requires a non-empty password',
+                    ArchiveErrorCode.INVALID_OPTIONS,
+                    { archivePath: fullArchivePath }
+                );
+            }
+            if (encryption.encryptHeaders && format !== ArchiveFormat.SEVEN_ZIP) {
+                throw new ArchiveError(
+                    'Header encryption is only supported for .7z archives',
+                    ArchiveErrorCode.INVALID_OPTIONS,
+                    { archivePath: fullArchivePath, format }
+                );
+            }
+        }
+
+        // Validate volume size
+        const volumeSize = options.volumeSize;
+        if (volumeSize !== undefined && (!Number.isInteger(volumeSize) || volumeSize <= 0)) {
+            throw new ArchiveError(
+                `Volume size must be a positive number of bytes: ${volumeSize}`,
+                ArchiveErrorCode.INVALID_OPTIONS,
+                { archivePath: fullArchivePath, volumeSize }
+            );
         }
+        verifyDiskSpaceCheck(diskSpaceCheck);
 
         // Verify all source files exist
         const missingFiles: string[] = [];
@@ -285,14 +656,25 @@ export class ArchiveOps {
             );
         }
 
+        // Unless writing in place, 7za creates a new archive next to the target, which replaces it on success
+        const inPlace = options.inPlace === true;
+        const outputPath = inPlace ? fullArchivePath : this.createTempPath(fullArchivePath);
+
+        // Work out entry names; a prefix or mapping is applied by renaming entries after they are added
+        const layout = this.resolveSourceLayout(resolvedSourceFiles, options, fullArchivePath);
+        if (layout.renames.length > 0 && (volumeSize !== undefined || (inPlace && await this.canAccessFile(fullArchivePath)))) {
+            throw new ArchiveError(
+                'A prefix or entryNames cannot be used with volumeSize, or with inPlace on an existing archive',
+                ArchiveErrorCode.INVALID_OPTIONS,
+                { archivePath: fullArchivePath }
+            );
+        }
+
         // Ensure target directory exists
         const targetDir = path.dirname(fullArchivePath);
         await this.ensureDirectoryExists(targetDir);
 
-        // Check if overwriting
-        if (await this.canAccessFile(fullArchivePath)) {
-            onProgress?.(0, `Overwriting existing archive: ${archiveFilename}`);
-        }
+        this.attachAbortControls(options, tracker);
 
         // Update state
         this.activeOp = ArchiveOpType.COMPRESS;
@@ -300,81 +682,118 @@ export class ArchiveOps {
         this.lastMessage = `Compressing to '${archiveFilename}'`;
         this.startTime = Date.now();
 
-        return new Promise((resolve, reject) => {
-            try {
-                let progress = 0;
-                let stderrBuffer = '';
+        try {
+            // Check if overwriting
+            const staleVolumes = volumeSize !== undefined ? await listVolumes(fullArchivePath) : [];
+            if (staleVolumes.length > 0) {
+                onProgress?.(0, `Overwriting ${staleVolumes.length} existing volumes: ${archiveFilename}`);
+                if (inPlace) {
+                    // 7za cannot update a split archive, so stale volumes would corrupt the new set
+                    await Promise.all(staleVolumes.map(volume => fs.rm(volume, { force: true })));
+                }
+            } else if (volumeSize === undefined && await this.canAccessFile(fullArchivePath)) {
+                onProgress?.(0, `Overwriting existing archive: ${archiveFilename}`);
+            }
+
+            // Walking the sources costs I/O, so only filters do it; 7za's own scan provides the totals otherwise
+            let totals: ProgressTotals = {};
+            let sources = layout.roots;
+            let excluded: string[] = [];
+            if (hasSourceFilter(options)) {
+                tracker.setPhase(ProgressPhase.SCANNING);
+                ({ sources, totals, excluded } = await this.applySourceFilter(layout.roots, options));
+            }
+            const readScanSummary = totals.bytesTotal === undefined ? createScanSummaryReader() : undefined;
+
+            // The archive can be as large as its sources; 7za also rewrites an existing archive it adds to
+            const rewrittenSize = inPlace ? (await fs.stat(fullArchivePath).catch(() => null))?.size ?? 0 : 0;
+            const checkFreeSpace = (bytesTotal: number): Promise<void> =>
+                ensureFreeSpace(fullArchivePath, bytesTotal + rewrittenSize, diskSpaceCheck);
+            if (totals.bytesTotal !== undefined) {
+                await checkFreeSpace(totals.bytesTotal);
+            }
+
+            tracker.setPhase(ProgressPhase.COMPRESSING, totals, percent => `Compressing '${archiveFilename}'...${percent}%`);
 
-                // 7za args: a=add, -tzip=zip format, -mx=compression level, -bsp1=progress
-                const args = [
-                    'a',
-                    '-tzip',
+            // 7za args: a=add, -t=archive format, -mx=compression level, -v=volume size, -bsp1=progress
+            const command: SevenZipCommand = {
+                command: 'a',
+                switches: [
+                    formatSwitch(format),
                     `-mx${level}`,
+                    ...(volumeSize !== undefined ? [`-v${volumeSize}b`] : []),
                     '-bsp1',
-                    '-bso0',
-                    fullArchivePath,
-                    ...resolvedSourceFiles
-                ];
+                    // The scan summary is regular output
+                    ...(readScanSummary ? [] : ['-bso0']),
+                    ...this.encryptionSwitches(format, encryption),
+                ],
+                archivePath: outputPath,
+                names: this.sourceArgs(sources, layout),
+                excludedNames: excluded,
+            };
+
+            // 7za prompts for the password (and its confirmation) on stdin when -p has no value
+            const stdin = encryption ? `${encryption.password}\n${encryption.password}\n` : undefined;
+
+            // Free space is checked once 7za reports the totals, before it writes any data; 7za is stopped if it falls short
+            let spaceCheck: Promise<void> | undefined;
+            const { exitCode, stderr } = await this.runProcess(command, (message) => {
+                if (this.status <= 0) return;
+                const scanned = readScanSummary?.(message);
+                if (scanned) {
+                    tracker.setTotals(scanned);
+                    spaceCheck = checkFreeSpace(scanned.bytesTotal).catch((error: ArchiveError) => this.abort(error));
+                }
+                tracker.push(message);
+            }, stdin, layout.cwd);
+            await spaceCheck;
+            this.throwIfAborted();
 
-                this.process = this.spawnProcess(args);
+            if (exitCode !== 0) {
+                throw this.createProcessError(exitCode, fullArchivePath, stderr, encryption?.password);
+            }
 
-                this.process.stdout.on('data', (data: Buffer) => {
-                    if (this.status <= 0) return;
+            if (layout.renames.length > 0) {
+                await this.renameAddedEntries(outputPath, fullArchivePath, format, layout.renames, encryption, tracker);
+            }
 
-                    const message = data.toString();
-                    const progressMatch = message.match(/(\d+)%/);
-                    if (progressMatch) {
-                        progress = parseInt(progressMatch[1], 10);
-                    }
+            if (!inPlace) {
+                await this.replaceWithTemp(outputPath, fullArchivePath, volumeSize !== undefined ? staleVolumes : undefined);
+            }
 
-                    const newMessage = `Compressing '${archiveFilename}'...${progress}%`;
-                    if (newMessage !== this.lastMessage) {
-                        this.lastMessage = newMessage;
-                        onProgress?.(progress, this.lastMessage);
-                    }
-                });
-
-                this.process.stderr.on('data', (data: Buffer) => {
-                    stderrBuffer += data.toString();
-                });
-
-                this.process.on('error', (error: Error) => {
-                    reject(this.createSpawnError(error));
-                });
-
-                this.process.on('close', (code: number | null) => {
-                    const exitCode = code ?? 0;
-
-                    if (exitCode === 0) {
-                        const archiveStats = statSync(fullArchivePath);
-                        const archiveInfo: FileInfo = {
-                            date: archiveStats.mtime,
-                            filename: archiveFilename,
-                            size: archiveStats.size,
-                        };
-
-                        const sourceDesc = sourceFiles.length > 1
-                            ? `${sourceFiles.length} files`
-                            : `'${path.basename(sourceFiles[0])}'`;
-
-                        onProgress?.(100, `Compressed ${sourceDesc} to '${archiveFilename}'.`);
-                        resolve(this.createSuccessResult(
-                            `Compressed ${sourceDesc} to '${archiveFilename}'.`,
-                            [archiveInfo],
-                            path.dirname(fullArchivePath),
-                            exitCode
-                        ));
-                    } else {
-                        this.cleanup();
-                        reject(createErrorFromExitCode(exitCode, fullArchivePath, stderrBuffer));
-                    }
-                });
+            // One entry per written file: the archive, or every volume of a split archive
+            const outputFiles = volumeSize !== undefined ? await listVolumes(fullArchivePath) : [fullArchivePath];
+            const archiveInfos: FileInfo[] = outputFiles.map((file) => {
+                const archiveStats = statSync(file);
+                return {
+                    date: archiveStats.mtime,
+                    filename: path.basename(file),
+                    size: archiveStats.size,
+                };
+            });
 
-            } catch (error) {
-                this.cleanup();
-                reject(error instanceof Error ? error : new Error(String(error)));
+            const sourceDesc = sourceFiles.length > 1
+                ? `${sourceFiles.length} files`
+                : `'${path.basename(sourceFiles[0])}'`;
+            const volumeDesc = volumeSize !== undefined
+                ? ` (${archiveInfos.length} volume${archiveInfos.length === 1 ? '' : 's'})`
+                : '';
+
+            tracker.complete(`Compressed ${sourceDesc} to '${archiveFilename}'${volumeDesc}.`);
+            return this.createSuccessResult(
+                `Compressed ${sourceDesc} to '${archiveFilename}'${volumeDesc}.`,
+                archiveInfos,
+                path.dirname(fullArchivePath),
+                exitCode,
+                format
+            );
+        } catch (error) {
+            this.cleanup();
+            if (!inPlace) {
+                await this.removeTemp(outputPath);
             }
-        });
+            throw error instanceof Error ? error : new Error(String(error));
+        }
     }
 
     /**
@@ -383,10 +802,11 @@ export class ArchiveOps {
     public async extractSingle(
         archivePath: string,
         entryPath: string,
-        destPath: string
+        destPath: string,
+        options?: Omit<DecompressOptions, 'fileList'>
     ): Promise<ArchiveOpResult> {
         // Delegate to decompress with single file
-        return this.decompress(archivePath, destPath, [entryPath]);
+        return this.decompress(archivePath, destPath, { ...options, fileList: [entryPath] });
     }
 
     /**
@@ -394,9 +814,12 @@ export class ArchiveOps {
      */
     public async update(
         archivePath: string,
-        sourceFiles: string[]
+        sourceFiles: string[],
+        options?: UpdateOptions
     ): Promise<ArchiveOpResult> {
         this.lastMessage = '';
+        this.currentArchivePath = archivePath;
+        const tracker = this.createTracker(options?.onProgress, options?.onProgressEvent);
 
         // Verify no operation is in progress
         if (this.activeOp !== ArchiveOpType.UNDEFINED) {
@@ -408,8 +831,10 @@ export class ArchiveOps {
         const resolvedSourceFiles = sourceFiles.map(f => path.resolve(f));
         const archiveFilename = path.basename(fullArchivePath);
 
-        // Verify archive exists and is valid
-        await this.verifyArchive(fullArchivePath);
+        // Verify archive exists and its detected format is writable
+        this.verifySingleVolume(fullArchivePath);
+        const detectedFormat = await this.verifyArchive(fullArchivePath, options, tracker);
+        const format = resolveWriteFormat(fullArchivePath, options?.format ?? detectedFormat);
 
         // Verify all source files exist
         const missingFiles: string[] = [];
@@ -426,169 +851,640 @@ export class ArchiveOps {
             );
         }
 
+        // Unless updating in place, 7za writes the updated archive next to it, which replaces it on success
+        const inPlace = options?.inPlace === true;
+        const layout = this.resolveSourceLayout(resolvedSourceFiles, {}, fullArchivePath);
+        const outputPath = inPlace ? fullArchivePath : this.createTempPath(fullArchivePath);
+
+        this.attachAbortControls(options, tracker);
+
         // Update state
         this.activeOp = ArchiveOpType.UPDATE;
         this.status = ProcessStatus.RUNNING;
         this.lastMessage = `Updating '${archiveFilename}'`;
         this.startTime = Date.now();
 
-        return new Promise((resolve, reject) => {
-            try {
-                let stderrBuffer = '';
-
-                // 7za args: u=update, -tzip=zip format
-                const args = [
-                    'u',
-                    '-tzip',
+        try {
+            let totals: ProgressTotals = {};
+            let sources = layout.roots;
+            let excluded: string[] = [];
+            if (options && hasSourceFilter(options)) {
+                tracker.setPhase(ProgressPhase.SCANNING);
+                ({ sources, totals, excluded } = await this.applySourceFilter(layout.roots, options));
+            }
+            const readScanSummary = totals.bytesTotal === undefined ? createScanSummaryReader() : undefined;
+            tracker.setPhase(ProgressPhase.UPDATING, totals, percent => `Updating '${archiveFilename}'...${percent}%`);
+
+            // 7za args: u=update, -t=archive format, -bsp1=progress,
+            // -u-=leave the archive unchanged, -up...!path=write the result of u's update actions to path
+            const command: SevenZipCommand = {
+                command: 'u',
+                switches: [
+                    formatSwitch(format),
                     '-bsp1',
-                    '-bso0',
-                    fullArchivePath,
-                    ...resolvedSourceFiles
-                ];
-
-                this.process = this.spawnProcess(args);
-
-                this.process.stdout.on('data', () => {
-                    // Progress parsing for update is similar to compress
-                });
-
-                this.process.stderr.on('data', (data: Buffer) => {
-                    stderrBuffer += data.toString();
-                });
-
-                this.process.on('error', (error: Error) => {
-                    reject(this.createSpawnError(error));
-                });
-
-                this.process.on('close', (code: number | null) => {
-                    const exitCode = code ?? 0;
-
-                    if (exitCode === 0) {
-                        const sourceDesc = sourceFiles.length > 1
-                            ? `${sourceFiles.length} files`
-                            : `'${path.basename(sourceFiles[0])}'`;
-
-                        resolve(this.createSuccessResult(
-                            `Updated '${archiveFilename}' with ${sourceDesc}.`,
-                            [],
-                            path.dirname(fullArchivePath),
-                            exitCode
-                        ));
-                    } else {
-                        this.cleanup();
-                        reject(createErrorFromExitCode(exitCode, fullArchivePath, stderrBuffer));
-                    }
-                });
+                    // The scan summary is regular output
+                    ...(readScanSummary ? [] : ['-bso0']),
+                    ...(inPlace ? [] : ['-u-', `-up1q1r2x1y2z1w2!${outputPath}`]),
+                ],
+                archivePath: fullArchivePath,
+                names: this.sourceArgs(sources, layout),
+                excludedNames: excluded,
+            };
+
+            const { exitCode, stderr } = await this.runProcess(command, (message) => {
+                if (this.status <= 0) return;
+                const scanned = readScanSummary?.(message);
+                if (scanned) {
+                    tracker.setTotals(scanned);
+                }
+                tracker.push(message);
+            });
 
-            } catch (error) {
-                this.cleanup();
-                reject(error instanceof Error ? error : new Error(String(error)));
+            if (exitCode !== 0) {
+                throw this.createProcessError(exitCode, fullArchivePath, stderr);
             }
-        });
-    }
 
-    /**
-     * Validates entry paths for path traversal attacks.
-     * Throws PathTraversalError if malicious paths are detected.
-     */
-    public validateEntryPaths(entries: FileInfo[]): void {
-        validateAllEntries(entries, this.currentArchivePath);
-    }
+            if (!inPlace) {
+                await this.replaceWithTemp(outputPath, fullArchivePath);
+            }
 
-    /**
-     * Cancels the current operation.
-     */
-    public cancel(): void {
-        if (this.process && !this.process.killed) {
-            this.process.kill('SIGTERM');
-            this.status = ProcessStatus.ERROR;
-            this.lastMessage = 'Operation cancelled';
+            const sourceDesc = sourceFiles.length > 1
+                ? `${sourceFiles.length} files`
+                : `'${path.basename(sourceFiles[0])}'`;
+
+            tracker.complete(`Updated '${archiveFilename}' with ${sourceDesc}.`);
+            return this.createSuccessResult(
+                `Updated '${archiveFilename}' with ${sourceDesc}.`,
+                [],
+                path.dirname(fullArchivePath),
+                exitCode,
+                format
+            );
+        } catch (error) {
+            this.cleanup();
+            if (!inPlace) {
+                await this.removeTemp(outputPath);
+            }
+            throw error instanceof Error ? error : new Error(String(error));
         }
-        this.cleanup();
     }
 
     /**
-     * Returns current operation status.
+     * Deletes entries from an existing archive (7za d).
+     * Deleting a directory removes everything below it. All entries must exist.
      */
-    public getStatus(): { status: ProcessStatus; message: string } {
-        return { status: this.status, message: this.lastMessage };
-    }
+    public async deleteEntries(archivePath: string, entries: string[], options?: EditOptions): Promise<ArchiveOpResult> {
+        this.lastMessage = '';
+        const tracker = this.createTracker(options?.onProgress, options?.onProgressEvent);
+        this.currentArchivePath = archivePath;
 
-    //#endregion
+        // Verify no operation is in progress
+        if (this.activeOp !== ArchiveOpType.UNDEFINED) {
+            throw new OperationInProgressError(ArchiveOpType[this.activeOp]);
+        }
 
-    //#region INTERNAL
+        // Verify archive exists and its detected format is writable
+        const fullArchivePath = path.resolve(archivePath);
+        const archiveFilename = path.basename(fullArchivePath);
+        this.verifySingleVolume(fullArchivePath);
+        const format = resolveWriteFormat(fullArchivePath, await this.verifyArchive(fullArchivePath, options, tracker));
 
-    /**
-     * Internal list operation that doesn't check for active operations.
-     * Used by decompress to get file list before extraction.
-     */
-    private async listEntriesInternal(fullArchivePath: string): Promise<ArchiveOpResult> {
-        return new Promise((resolve, reject) => {
-            const args = ['l', '-slt', fullArchivePath];
-            const proc = this.spawnProcess(args);
-            let stdoutBuffer = '';
-            let stderrBuffer = '';
+        if (entries.length === 0) {
+            throw new ArchiveError(
+                'No entries specified for deletion',
+                ArchiveErrorCode.INVALID_OPTIONS,
+                { archivePath: fullArchivePath }
+            );
+        }
 
-            proc.stdout.on('data', (data: Buffer) => {
-                stdoutBuffer += data.toString();
-            });
+        this.attachAbortControls(options, tracker);
 
-            proc.stderr.on('data', (data: Buffer) => {
-                stderrBuffer += data.toString();
-            });
+        // Update state
+        this.activeOp = ArchiveOpType.DELETE;
+        this.status = ProcessStatus.RUNNING;
+        this.lastMessage = `Deleting from '${archiveFilename}'`;
+        this.startTime = Date.now();
 
-            proc.on('error', (error: Error) => {
-                reject(this.createSpawnError(error));
+        try {
+            // Verify all entries exist before modifying the archive
+            tracker.setPhase(ProgressPhase.LISTING);
+            const listResult = await this.listEntriesInternal(fullArchivePath, format);
+            this.verifyEntriesExist(listResult.files, entries, fullArchivePath);
+            const deletedFiles = listResult.files.filter(file => entries.some(entry => this.isEntryOrChild(file.filename, entry)));
+
+            tracker.setPhase(ProgressPhase.DELETING, {}, percent => `Deleting from '${archiveFilename}'...${percent}%`);
+
+            // 7za args: d=delete, -t=archive format, -bsp1=progress
+            const command: SevenZipCommand = {
+                command: 'd',
+                switches: [formatSwitch(format), '-bsp1', '-bso0'],
+                archivePath: fullArchivePath,
+                names: entries,
+            };
+
+            const { exitCode, stderr } = await this.runProcess(command, (message) => {
+                if (this.status <= 0) return;
+                tracker.push(message);
             });
 
-            proc.on('close', (code: number | null) => {
-                const exitCode = code ?? 0;
-
-                if (exitCode === 0) {
-                    const files = parseSltString(stdoutBuffer);
-
-                    if (hasEncryptedFiles(files)) {
-                        reject(new EncryptedArchiveError(fullArchivePath));
-                        return;
-                    }
+            if (exitCode !== 0) {
+                throw this.createProcessError(exitCode, fullArchivePath, stderr);
+            }
 
-                    resolve({
-                        success: true,
-                        runtime: 0,
-                        type: ArchiveOpType.LIST,
-                        message: `Listed ${files.length} entries.`,
-                        files,
-                        basePath: path.dirname(fullArchivePath),
-                        exitCode,
-                    });
-                } else {
-                    reject(createErrorFromExitCode(exitCode, fullArchivePath, stderrBuffer));
-                }
-            });
-        });
+            tracker.complete(`Deleted ${deletedFiles.length} files from '${archiveFilename}'.`);
+            return this.createSuccessResult(
+                `Deleted ${deletedFiles.length} files from '${archiveFilename}'.`,
+                deletedFiles,
+                fullArchivePath,
+                exitCode,
+                format
+            );
+        } catch (error) {
+            this.cleanup();
+            throw error instanceof Error ? error : new Error(String(error));
+        }
     }
 
     /**
-     * Spawns 7za process with shell:false for security.
+     * Renames entries inside an existing archive (7za rn), mapping old paths to new paths.
+     * Renaming a directory moves everything below it. New paths are validated for traversal.
      */
-    private spawnProcess(args: string[]): ChildProcessWithoutNullStreams {
-        const options: SpawnOptions = {
-            shell: false,
-            stdio: ['pipe', 'pipe', 'pipe'],
-            windowsHide: true,
-        };
+    public async renameEntries(
+        archivePath: string,
+        mapping: Record<string, string>,
+        options?: EditOptions
+    ): Promise<ArchiveOpResult> {
+        this.lastMessage = '';
+        const tracker = this.createTracker(options?.onProgress, options?.onProgressEvent);
+        this.currentArchivePath = archivePath;
 
-        return spawn(this.config.executablePath, args, options) as ChildProcessWithoutNullStreams;
-    }
+        // Verify no operation is in progress
+        if (this.activeOp !== ArchiveOpType.UNDEFINED) {
+            throw new OperationInProgressError(ArchiveOpType[this.activeOp]);
+        }
 
-    /**
-     * Verifies archive exists and has supported extension (.zip only).
-     */
-    private async verifyArchive(archivePath: string): Promise<void> {
-        // Check file exists
-        try {
-            await fs.access(archivePath);
-        } catch {
+        // Verify archive exists and its detected format is writable
+        const fullArchivePath = path.resolve(archivePath);
+        const archiveFilename = path.basename(fullArchivePath);
+        this.verifySingleVolume(fullArchivePath);
+        const format = resolveWriteFormat(fullArchivePath, await this.verifyArchive(fullArchivePath, options, tracker));
+
+        const renames = Object.entries(mapping);
+        if (renames.length === 0) {
+            throw new ArchiveError(
+                'No entries specified for renaming',
+                ArchiveErrorCode.INVALID_OPTIONS,
+                { archivePath: fullArchivePath }
+            );
+        }
+
+        // Security: new names must stay inside the archive root
+        for (const [, newName] of renames) {
+            validateEntryPath(newName, fullArchivePath);
+        }
+
+        this.attachAbortControls(options, tracker);
+
+        // Update state
+        this.activeOp = ArchiveOpType.RENAME;
+        this.status = ProcessStatus.RUNNING;
+        this.lastMessage = `Renaming entries in '${archiveFilename}'`;
+        this.startTime = Date.now();
+
+        try {
+            // Verify all sources exist and no target collides with an entry that stays in place
+            tracker.setPhase(ProgressPhase.LISTING);
+            const listResult = await this.listEntriesInternal(fullArchivePath, format);
+            this.verifyEntriesExist(listResult.files, renames.map(([oldName]) => oldName), fullArchivePath);
+
+            const renamedFiles: FileInfo[] = [];
+            const remainingNames = new Set<string>();
+            for (const file of listResult.files) {
+                const rename = renames.find(([oldName]) => this.isEntryOrChild(file.filename, oldName));
+                if (rename) {
+                    const [oldName, newName] = rename;
+                    renamedFiles.push({ ...file, filename: newName + file.filename.substring(oldName.length) });
+                } else {
+                    remainingNames.add(file.filename);
+                }
+            }
+
+            const collisions = renamedFiles.filter(file => remainingNames.has(file.filename)).map(file => file.filename);
+            if (collisions.length > 0) {
+                throw new ArchiveError(
+                    `Rename targets already exist in archive: ${collisions.join(', ')}`,
+                    ArchiveErrorCode.INVALID_OPTIONS,
+                    { archivePath: fullArchivePath, collisions }
+                );
+            }
+
+            tracker.setPhase(ProgressPhase.RENAMING, {}, percent => `Renaming in '${archiveFilename}'...${percent}%`);
+
+            // 7za args: rn=rename, -bsp1=progress, followed by old/new name pairs
+            const command: SevenZipCommand = {
+                command: 'rn',
+                switches: [formatSwitch(format), '-bsp1', '-bso0'],
+                archivePath: fullArchivePath,
+                names: renames.flat(),
+            };
+
+            const { exitCode, stderr } = await this.runProcess(command, (message) => {
+                if (this.status <= 0) return;
+                tracker.push(message);
+            });
+
+            if (exitCode !== 0) {
+                throw this.createProcessError(exitCode, fullArchivePath, stderr);
+            }
+
+            tracker.complete(`Renamed ${renamedFiles.length} files in '${archiveFilename}'.`);
+            return this.createSuccessResult(
+                `Renamed ${renamedFiles.length} files in '${archiveFilename}'.`,
+                renamedFiles,
+                fullArchivePath,
+                exitCode,
+                format
+            );
+        } catch (error) {
+            this.cleanup();
+            throw error instanceof Error ? error : new Error(String(error));
+        }
+    }
+
+    /**
+     * Tests archive integrity without extracting (7za t) and reports a result per entry.
+     * Resolves with success=false when any entry fails; throws if the archive cannot be tested at all.
+     */
+    public async test(archivePath: string, options?: TestOptions): Promise<ArchiveOpResult> {
+        this.lastMessage = '';
+        this.currentArchivePath = archivePath;
+        const tracker = this.createTracker(options?.onProgress, options?.onProgressEvent);
+
+        // Verify no operation is in progress
+        if (this.activeOp !== ArchiveOpType.UNDEFINED) {
+            throw new OperationInProgressError(ArchiveOpType[this.activeOp]);
+        }
+
+        // Validate archive and detect format
+        const fullArchivePath = path.resolve(archivePath);
+        const srcFilename = path.basename(fullArchivePath);
+        const format = await this.verifyArchive(fullArchivePath, options, tracker);
+        const password = options?.password;
+        this.verifyPassword(password);
+
+        this.attachAbortControls(options, tracker);
+
+        // Update state
+        this.activeOp = ArchiveOpType.TEST;
+        this.status = ProcessStatus.RUNNING;
+        this.lastMessage = `Testing '${srcFilename}'`;
+        this.startTime = Date.now();
+
+        try {
+            const parser = createTestOutputParser();
+            tracker.setPhase(ProgressPhase.TESTING, {}, percent => `Testing '${srcFilename}'...${percent}%`);
+
+            // 7za args: t=test, -bb1=log tested entries, -bse1=errors to stdout (keeps them in entry order)
+            const command: SevenZipCommand = { command: 't', switches: ['-bb1', '-bse1', '-bsp1'] };
+
+            const { exitCode, stderr } = await this.runReader(command, fullArchivePath, format, (message) => {
+                parser.push(message);
+                if (this.status <= 0) return;
+                tracker.push(message);
+            }, password);
+            parser.end();
+
+            const tests = parser.entries;
+            const failed = tests.filter(entry => entry.status !== EntryTestStatus.OK);
+
+            // Failures not tied to an entry mean the archive itself could not be read
+            if (exitCode !== 0 && failed.length === 0) {
+                const errorOutput = [...parser.archiveErrors, stderr].join('\n');
+                throw this.createProcessError(exitCode, fullArchivePath, errorOutput, password);
+            }
+
+            const message = failed.length === 0
+                ? `Tested ${tests.length} entries in '${srcFilename}': all OK.`
+                : `Tested ${tests.length} entries in '${srcFilename}': ${failed.length} failed.`;
+
+            tracker.complete(message);
+            const result = this.createSuccessResult(message, [], fullArchivePath, exitCode, format);
+            return { ...result, success: failed.length === 0, tests };
+        } catch (error) {
+            this.cleanup();
+            throw error instanceof Error ? error : new Error(String(error));
+        }
+    }
+
+    /**
+     * Validates entry paths for path traversal attacks.
+     * Throws PathTraversalError if malicious paths are detected.
+     */
+    public validateEntryPaths(entries: FileInfo[]): void {
+        validateAllEntries(entries, this.currentArchivePath);
+    }
+
+    /**
+     * Cancels the current operation.
+     */
+    public cancel(): void {
+        // The running operation rejects with OPERATION_CANCELLED at its next step and cleans up
+        // after itself; killing 7za here too would leave its children behind (see abort)
+        this.abort(new OperationCancelledError(this.currentArchivePath));
+        this.clearTimeoutTimer();
+    }
+
+    /**
+     * Returns current operation status.
+     */
+    public getStatus(): { status: ProcessStatus; message: string } {
+        return { status: this.status, message: this.lastMessage };
+    }
+
+    //#endregion
+
+    //#region INTERNAL
+
+    /**
+     * Internal list operation that doesn't check for active operations.
+     * Used by decompress to get file list before extraction.
+     */
+    private async listEntriesInternal(
+        fullArchivePath: string,
+        format: ArchiveFormat,
+        password?: string
+    ): Promise<ArchiveOpResult> {
+        const { exitCode, stdout, stderr } = await this.runReader(LIST_COMMAND, fullArchivePath, format, undefined, password);
+
+        if (exitCode !== 0) {
+            throw this.createProcessError(exitCode, fullArchivePath, stderr, password);
+        }
+
+        const files = parseSltString(stdout, { timeZone: this.config.timeZone });
+
+        if (!password && hasEncryptedFiles(files)) {
+            throw new EncryptedArchiveError(fullArchivePath);
+        }
+
+        return {
+            success: true,
+            runtime: 0,
+            type: ArchiveOpType.LIST,
+            message: `Listed ${files.length} entries.`,
+            files,
+            basePath: path.dirname(fullArchivePath),
+            exitCode,
+            format,
+        };
+    }
+
+    /**
+     * Runs an -slt listing and yields entries while 7za is still writing them.
+     * 7za's stdout is paused whenever the parser falls behind, so output never piles up.
+     * Throws the process error once all entries have been yielded.
+     */
+    private async *streamEntries(
+        fullArchivePath: string,
+        format: ArchiveFormat,
+        password?: string,
+        parseOptions?: SltParseOptions
+    ): AsyncGenerator<FileInfo, void, undefined> {
+        const output = new PassThrough();
+        output.on('drain', () => this.process?.stdout.resume());
+
+        // 7za args: l=list, -slt=technical listing format
+        const finished = this.runReader(LIST_COMMAND, fullArchivePath, format, (data) => {
+            if (!output.write(data)) {
+                this.process?.stdout.pause();
+            }
+        }, password);
+        finished.then(() => output.end(), () => output.end());
+
+        yield* parseSltEntries(output, { ...parseOptions, timeZone: this.config.timeZone });
+
+        const { exitCode, stderr } = await finished;
+        if (exitCode !== 0) {
+            throw this.createProcessError(exitCode, fullArchivePath, stderr, password);
+        }
+    }
+
+    /**
+     * Runs a 7za read command against an archive.
+     * The password is answered on stdin when 7za prompts for it.
+     * TAR_GZIP archives are decoded by a second 7za process and piped in via stdin,
+     * since 7za on its own only sees the .tar inside the gzip stream (tar has no encryption).
+     */
+    private async runReader(
+        command: SevenZipCommand,
+        fullArchivePath: string,
+        format: ArchiveFormat,
+        onStdout?: (data: string) => void,
+        password?: string
+    ): Promise<ProcessResult> {
+        if (format !== ArchiveFormat.TAR_GZIP) {
+            const stdin = password ? `${password}\n` : undefined;
+            return this.runProcess({ ...command, archivePath: fullArchivePath }, onStdout, stdin);
+        }
+
+        // 7za args: x=extract, -so=write to stdout, -tgzip=gzip format
+        const decoderCommandLine = await buildCommandLine({
+            command: 'x',
+            switches: ['-so', formatSwitch(ArchiveFormat.GZIP)],
+            archivePath: fullArchivePath,
+        });
+        const decoder = this.spawnProcess(decoderCommandLine.args);
+        let decoderStderr = '';
+
+        decoder.stderr.on('data', (data: Buffer) => {
+            decoderStderr += data.toString();
+        });
+
+        // The reader exits early on errors; ignore the resulting broken pipe
+        decoder.stdout.on('error', () => {});
+
+        const decoderClosed = new Promise<number>((resolve) => {
+            // Spawn failures are reported by the reader, which uses the same executable
+            decoder.on('error', () => resolve(0));
+            decoder.on('close', (code: number | null) => resolve(code ?? 0));
+        });
+
+        let result: ProcessResult;
+        try {
+            // 7za args: -si=read archive from stdin, -ttar=tar format
+            const switches = [...(command.switches ?? []), '-si', formatSwitch(ArchiveFormat.TAR)];
+            result = await this.runProcess({ ...command, switches }, onStdout, decoder.stdout);
+        } finally {
+            if (decoder.exitCode === null) {
+                // The decoder may be the process stuck on I/O
+                if (this.abortError) {
+                    killProcessTree(decoder);
+                } else {
+                    decoder.kill();
+                }
+            }
+        }
+
+        // A truncated gzip stream still yields a readable (partial) tar, so report decoder failures
+        const decoderExitCode = await decoderClosed;
+        if (result.exitCode === 0 && decoderExitCode !== 0) {
+            return { exitCode: decoderExitCode, stdout: result.stdout, stderr: decoderStderr };
+        }
+
+        return result;
+    }
+
+    /**
+     * Runs 7za to completion and resolves with its exit code and output.
+     * Stdout is passed to onStdout if given, otherwise collected into the result.
+     * Input is written to stdin (secrets go here, never into args); without input stdin
+     * is closed so an unexpected password prompt fails instead of hanging.
+     * A stall watchdog stops 7za if it writes no output for stallTimeoutMs (paused output
+     * doesn't count, since that is the consumer being slow, not 7za).
+     * Rejects if the process cannot be spawned, or the operation was cancelled or timed out.
+     */
+    private async runProcess(
+        command: SevenZipCommand,
+        onStdout?: (data: string) => void,
+        input?: Readable | string,
+        cwd?: string
+    ): Promise<ProcessResult> {
+        const commandLine = await buildCommandLine(command);
+        try {
+            return await this.waitForProcess(commandLine.args, onStdout, input, cwd);
+        } finally {
+            await removeListFiles(commandLine);
+        }
+    }
+
+    /**
+     * Spawns 7za with built arguments and waits for it (see runProcess).
+     */
+    private waitForProcess(
+        args: string[],
+        onStdout?: (data: string) => void,
+        input?: Readable | string,
+        cwd?: string
+    ): Promise<ProcessResult> {
+        return new Promise((resolve, reject) => {
+            let stdoutBuffer = '';
+            let stderrBuffer = '';
+
+            // Don't start 7za for an operation that was cancelled or timed out between steps
+            const abortError = this.getAbortError();
+            if (abortError) {
+                reject(abortError);
+                return;
+            }
+
+            const proc = this.spawnProcess(args, cwd);
+            this.process = proc;
+
+            const onAbort = (): void => {
+                this.abort(new OperationCancelledError(this.currentArchivePath));
+            };
+            this.signal?.addEventListener('abort', onAbort, { once: true });
+
+            let stallTimer: NodeJS.Timeout | undefined;
+            const resetStallTimer = (): void => {
+                if (this.stallTimeoutMs <= 0) {
+                    return;
+                }
+                clearTimeout(stallTimer);
+                stallTimer = setTimeout(() => {
+                    if (proc.stdout.isPaused()) {
+                        resetStallTimer();
+                    } else {
+                        this.abort(this.createTimeoutError(this.stallTimeoutMs, true));
+                    }
+                }, this.stallTimeoutMs);
+            };
+            const stopWatching = (): void => {
+                clearTimeout(stallTimer);
+                this.signal?.removeEventListener('abort', onAbort);
+            };
+            resetStallTimer();
+
+            // 7za may exit before consuming all input (e.g., on a header error)
+            proc.stdin.on('error', () => {});
+
+            if (input === undefined || typeof input === 'string') {
+                proc.stdin.end(input);
+            } else {
+                input.pipe(proc.stdin);
+            }
+
+            proc.stdout.on('data', (data: Buffer) => {
+                resetStallTimer();
+                if (onStdout) {
+                    onStdout(data.toString());
+                } else {
+                    stdoutBuffer += data.toString();
+                }
+            });
+
+            proc.stderr.on('data', (data: Buffer) => {
+                resetStallTimer();
+                stderrBuffer += data.toString();
+            });
+
+            proc.on('error', (error: Error) => {
+                stopWatching();
+                reject(this.createSpawnError(error));
+            });
+
+            proc.on('close', (code: number | null) => {
+                stopWatching();
+                const abortError = this.getAbortError();
+                if (abortError) {
+                    reject(abortError);
+                    return;
+                }
+
+                // A null code means 7za was killed by a signal from outside
+                resolve({ exitCode: code ?? EXIT_CODE_KILLED, stdout: stdoutBuffer, stderr: stderrBuffer });
+            });
+        });
+    }
+
+    /**
+     * Spawns 7za process with shell:false for security, outside any terminal (see detached).
+     * Arguments must come from buildCommandLine.
+     */
+    private spawnProcess(args: string[], cwd?: string): ChildProcessWithoutNullStreams {
+        const options: SpawnOptions = {
+            cwd,
+            shell: false,
+            stdio: ['pipe', 'pipe', 'pipe'],
+            windowsHide: true,
+            // A new session has no controlling terminal: p7zip reads passwords from the terminal
+            // if there is one, so a password written to stdin would never be read
+            detached: process.platform !== 'win32',
+            // 7za converts entry times with the C library's time zone, which TZ overrides
+            env: this.config.timeZone === TimeZonePolicy.UTC ? { ...process.env, TZ: 'UTC' } : undefined,
+        };
+
+        // A relative executable path would otherwise be looked up from cwd
+        const executablePath = cwd && /[\\/]/.test(this.config.executablePath)
+            ? path.resolve(this.config.executablePath)
+            : this.config.executablePath;
+        return spawn(executablePath, args, options) as ChildProcessWithoutNullStreams;
+    }
+
+    /**
+     * Verifies archive exists and is a readable format, returning the detected format.
+     * The format is detected from the file's content; files without a known signature
+     * (e.g., self-extracting archives) fall back to the type reported by 7za.
+     * The operation's options and tracker apply to that 7za run (see probeFormat).
+     */
+    private async verifyArchive(
+        archivePath: string,
+        controls: OperationControls | undefined,
+        tracker: ProgressTracker
+    ): Promise<ArchiveFormat> {
+        // Check file exists
+        try {
+            await fs.access(archivePath);
+        } catch {
             throw new ArchiveError(
                 `Archive not found: ${archivePath}`,
                 ArchiveErrorCode.FILE_NOT_FOUND,
@@ -596,22 +1492,94 @@ export class ArchiveOps {
             );
         }
 
-        // Check extension (ZIP only)
-        const ext = path.extname(archivePath).toLowerCase();
-        if (ext !== '.zip') {
-            throw new UnsupportedFormatError(archivePath, ext || '(none)');
+        await this.verifyVolumes(archivePath);
+
+        // Detect format from content, not extension
+        const format = await detectFormat(archivePath) ?? await this.probeFormat(archivePath, controls, tracker);
+        if (format === null || !READABLE_FORMATS.includes(format)) {
+            const ext = path.extname(archivePath).toLowerCase();
+            throw new UnsupportedFormatError(archivePath, ext || '(none)', formatExtensions(READABLE_FORMATS));
+        }
+
+        return format;
+    }
+
+    /**
+     * Verifies a split archive is opened from its first volume and has no gaps in the set.
+     * Trailing volumes cannot be detected up front; see createProcessError.
+     */
+    private async verifyVolumes(archivePath: string): Promise<void> {
+        const index = volumeIndex(archivePath);
+        if (index === null) {
+            return;
+        }
+
+        if (index !== 1) {
+            throw new ArchiveError(
+                `Multi-volume archives must be opened from the first volume: ${path.basename(archivePath)}`,
+                ArchiveErrorCode.INVALID_PATH,
+                { archivePath, firstVolume: volumePath(volumeBasePath(archivePath), 1) }
+            );
+        }
+
+        const missingVolumes = findMissingVolumes(await listVolumes(archivePath));
+        if (missingVolumes.length > 0) {
+            throw new MissingVolumeError(archivePath, missingVolumes.map(volume => path.basename(volume)));
+        }
+    }
+
+    /**
+     * Rejects edits to split archives, which 7za cannot update in place.
+     */
+    private verifySingleVolume(archivePath: string): void {
+        if (volumeIndex(archivePath) !== null) {
+            throw new ArchiveError(
+                `Multi-volume archives cannot be modified: ${path.basename(archivePath)}`,
+                ArchiveErrorCode.INVALID_OPTIONS,
+                { archivePath }
+            );
+        }
+    }
+
+    /**
+     * Asks 7za to open the file and maps its reported archive type to a format.
+     * Returns null if 7za cannot open the file or the type is not supported.
+     * The probe runs before the operation starts, so it gets the operation's cancellation and
+     * time limits of its own (the operation's timeout starts again afterwards).
+     */
+    private async probeFormat(
+        archivePath: string,
+        controls: OperationControls | undefined,
+        tracker: ProgressTracker
+    ): Promise<ArchiveFormat | null> {
+        this.attachAbortControls(controls, tracker);
+        let result: ProcessResult;
+        try {
+            result = await this.runProcess({ ...LIST_COMMAND, archivePath });
+        } finally {
+            this.clearTimeoutTimer();
         }
+
+        const { exitCode, stdout } = result;
+        if (exitCode !== 0) {
+            return null;
+        }
+
+        const type = parseSltArchiveType(stdout);
+        return type ? formatFromType(type) : null;
     }
 
     /**
      * Ensures directory exists, creating it if necessary.
+     * Returns the first directory created, or undefined if it already existed.
      */
-    private async ensureDirectoryExists(directoryPath: string): Promise<void> {
+    private async ensureDirectoryExists(directoryPath: string): Promise<string | undefined> {
         try {
             await fs.access(directoryPath);
+            return undefined;
         } catch {
             try {
-                await fs.mkdir(directoryPath, { recursive: true });
+                return await fs.mkdir(directoryPath, { recursive: true });
             } catch (mkdirError) {
                 throw new ArchiveError(
                     `Failed to create directory: ${directoryPath}`,
@@ -634,6 +1602,688 @@ export class ArchiveOps {
         }
     }
 
+    /**
+     * Verifies the staged files against the listing, then moves them into the target directory.
+     * The move is undone if it fails or the operation is cancelled or times out meanwhile.
+     */
+    private async commitStaged(
+        files: FileInfo[],
+        stagingDir: string,
+        fullTargetPath: string,
+        backupDir: string,
+        conflictPolicy: ConflictPolicy,
+        tracker: ProgressTracker
+    ): Promise<Map<string, string | null>> {
+        tracker.setPhase(ProgressPhase.VALIDATING, { filesTotal: files.length });
+        const incomplete = await findIncompleteFiles(stagingDir, files);
+        if (incomplete.length > 0) {
+            throw new ArchiveError(
+                `Extracted files are missing or incomplete: ${incomplete.slice(0, 5).join(', ')}${incomplete.length > 5 ? ', ...' : ''}`,
+                ArchiveErrorCode.FATAL_ERROR,
+                { archivePath: this.currentArchivePath, incompleteFiles: incomplete }
+            );
+        }
+
+        tracker.setPhase(ProgressPhase.COMMITTING);
+        return commitStagedFiles(stagingDir, fullTargetPath, backupDir, conflictPolicy, (targetPath) => {
+            this.throwIfAborted();
+            tracker.countEntry(path.relative(fullTargetPath, targetPath));
+        });
+    }
+
+    /**
+     * Narrows entries down to those matching a selector.
+     * Throws FILE_NOT_FOUND if any glob, regular expression or extension matches no entry,
+     * or if no entry meets every criterion.
+     */
+    private selectMatchingEntries(files: FileInfo[], select: EntrySelector, fullArchivePath: string): FileInfo[] {
+        const selection = selectEntries(files, select);
+        if (selection.unmatched.length > 0) {
+            throw new ArchiveError(
+                `No entries match: ${selection.unmatched.join(', ')}`,
+                ArchiveErrorCode.FILE_NOT_FOUND,
+                { archivePath: fullArchivePath, unmatched: selection.unmatched }
+            );
+        }
+        if (selection.files.length === 0) {
+            throw new ArchiveError(
+                'No entries match the selection',
+                ArchiveErrorCode.FILE_NOT_FOUND,
+                { archivePath: fullArchivePath, select }
+            );
+        }
+        return selection.files;
+    }
+
+    /**
+     * Works out where each entry goes below the target, with leading folders stripped or all folders
+     * removed (flatten). Entries with no path left are skipped. When paths change, throws INVALID_OPTIONS
+     * if two entries would land on the same path (or a file on another entry's folder), or if no entry is left.
+     */
+    private placeEntries(files: FileInfo[], stripComponents: number, flatten: boolean): EntryPlacement[] {
+        if (stripComponents === 0 && !flatten) {
+            return files.map(file => ({ file, relativePath: file.filename }));
+        }
+
+        const placements: EntryPlacement[] = [];
+        for (const file of files) {
+            const segments = normalizePath(file.filename).split('/').filter(Boolean).slice(stripComponents);
+            if (segments.length > 0) {
+                placements.push({ file, relativePath: flatten ? segments[segments.length - 1] : segments.join('/') });
+            }
+        }
+        if (placements.length === 0 && files.length > 0) {
+            throw new ArchiveError(
+                `No entries left after stripping ${stripComponents} path components`,
+                ArchiveErrorCode.INVALID_OPTIONS,
+                { archivePath: this.currentArchivePath, stripComponents }
+            );
+        }
+
+        // File systems on Windows and macOS usually ignore case, so 'A.txt' and 'a.txt' collide there
+        const ignoreCase = process.platform === 'win32' || process.platform === 'darwin';
+        const pathKey = (relativePath: string): string => ignoreCase ? relativePath.toLowerCase() : relativePath;
+
+        const entriesByPath = new Map<string, { relativePath: string; entries: string[] }>();
+        const entryBelowFolder = new Map<string, string>();
+        for (const { file, relativePath } of placements) {
+            const key = pathKey(relativePath);
+            const target = entriesByPath.get(key) ?? { relativePath, entries: [] };
+            target.entries.push(file.filename);
+            entriesByPath.set(key, target);
+
+            const segments = relativePath.split('/');
+            for (let depth = 1; depth < segments.length; depth++) {
+                const folderKey = pathKey(segments.slice(0, depth).join('/'));
+                if (!entryBelowFolder.has(folderKey)) {
+                    entryBelowFolder.set(folderKey, file.filename);
+                }
+            }
+        }
+
+        const collisions: Record<string, string[]> = {};
+        for (const [key, { relativePath, entries }] of entriesByPath) {
+            const entryBelow = entryBelowFolder.get(key);
+            if (entries.length > 1 || entryBelow) {
+                collisions[relativePath] = entryBelow ? [...entries, entryBelow] : entries;
+            }
+        }
+        if (Object.keys(collisions).length > 0) {
+            const described = Object.entries(collisions).map(([relativePath, entries]) => `${relativePath} (${entries.join(', ')})`);
+            throw new ArchiveError(
+                `Entries would be extracted to the same path: ${described.slice(0, 5).join('; ')}${described.length > 5 ? '; ...' : ''}`,
+                ArchiveErrorCode.INVALID_OPTIONS,
+                { archivePath: this.currentArchivePath, collisions }
+            );
+        }
+        return placements;
+    }
+
+    /**
+     * Finds the entries whose target path already exists.
+     */
+    private async findConflicts(placements: EntryPlacement[], fullTargetPath: string): Promise<FileConflict[]> {
+        const conflicts: FileConflict[] = [];
+        for (const { file, relativePath } of placements) {
+            const targetPath = path.join(fullTargetPath, relativePath);
+            const stats = await fs.lstat(targetPath).catch(() => null);
+            if (stats) {
+                conflicts.push({ filename: file.filename, targetPath, existingSize: stats.size, existingDate: stats.mtime });
+            }
+        }
+        return conflicts;
+    }
+
+    /**
+     * Predicts what 7za -aou/-aos does with each file whose path is taken, in extraction (listing) order.
+     * A path is taken if it existed before, or if a file extracted earlier from the same archive
+     * now occupies it (also under a 'name_N.ext' name). Directories are merged, not renamed.
+     * Returns the planned paths mapped to the name used instead, or to null if the file is skipped.
+     */
+    private async predictRedirects(
+        placements: EntryPlacement[],
+        conflicts: FileConflict[],
+        fullTargetPath: string,
+        conflictPolicy: ConflictPolicy
+    ): Promise<Map<string, string | null>> {
+        const existing = new Set(conflicts.map(conflict => conflict.targetPath));
+        const extracted = new Set<string>();
+        const planned = new Set<string>();
+        const redirected = new Map<string, string | null>();
+        for (const { file, relativePath } of placements) {
+            if (file.kind === EntryKind.DIRECTORY) {
+                continue;
+            }
+            const plannedPath = path.join(fullTargetPath, relativePath);
+            if (existing.has(plannedPath) || extracted.has(plannedPath)) {
+                const actualPath = conflictPolicy === ConflictPolicy.RENAME ? await findFreePath(plannedPath, extracted) : null;
+                if (actualPath) {
+                    extracted.add(actualPath);
+                }
+                // Results are reported per name, so of two entries with the same name the first one counts
+                if (!planned.has(plannedPath)) {
+                    redirected.set(plannedPath, actualPath);
+                }
+            } else {
+                extracted.add(plannedPath);
+            }
+            planned.add(plannedPath);
+        }
+        return redirected;
+    }
+
+    /**
+     * Verifies or restores the modification times of extracted files against their listed dates.
+     * Whole-second dates (most formats) are compared to the second, as 7za truncates them.
+     * Entries without a date or without an extracted file are left alone.
+     * Returns the files whose times differed (before restoring them).
+     */
+    private async applyMtimePolicy(files: FileInfo[], policy: MtimePolicy): Promise<MtimeMismatch[]> {
+        const mismatches: MtimeMismatch[] = [];
+        for (const file of files) {
+            if (!file.extractedPath || !file.date || file.kind === EntryKind.DIRECTORY) {
+                continue;
+            }
+            this.throwIfAborted();
+
+            const stats = await fs.lstat(file.extractedPath);
+            const expected = file.date.getTime();
+            const actual = expected % 1000 === 0 ? Math.floor(stats.mtimeMs / 1000) * 1000 : Math.floor(stats.mtimeMs);
+            if (actual === expected) {
+                continue;
+            }
+            mismatches.push({ filename: file.filename, extractedPath: file.extractedPath, expected: file.date, actual: stats.mtime });
+
+            if (policy === MtimePolicy.RESTORE) {
+                // A symbolic link's own time, not its target's
+                const setTimes = stats.isSymbolicLink() ? fs.lutimes : fs.utimes;
+                await setTimes(file.extractedPath, stats.atime, file.date);
+            }
+        }
+        return mismatches;
+    }
+
+    /**
+     * Fills in the targets of ZIP and 7z symbolic links, which are stored as the entry's content
+     * (one 7za call per link; tar listings already report them). 7za would also write out the
+     * entries below a link, so for such links (never extracted anyway) the target stays unknown.
+     */
+    private async readLinkTargets(
+        files: FileInfo[],
+        listing: FileInfo[],
+        fullArchivePath: string,
+        format: ArchiveFormat,
+        password?: string
+    ): Promise<void> {
+        for (const file of files) {
+            if (file.kind !== EntryKind.SYMLINK || file.linkTarget !== undefined) {
+                continue;
+            }
+            const prefix = `${file.filename.replace(/\/+$/, '')}/`;
+            if (listing.some(entry => entry.filename.startsWith(prefix))) {
+                continue;
+            }
+
+            // 7za args: x=extract, -so=write the content to stdout
+            const command: SevenZipCommand = { command: 'x', switches: ['-so'], names: [file.filename] };
+            const { exitCode, stdout, stderr } = await this.runReader(command, fullArchivePath, format, undefined, password);
+            if (exitCode !== 0) {
+                throw this.createProcessError(exitCode, fullArchivePath, stderr, password);
+            }
+            file.linkTarget = stdout;
+        }
+    }
+
+    /**
+     * Checks the paths entries are extracted to (see FilenameCheckOptions).
+     * Throws INVALID_PATH with every problem in details.problems.
+     */
+    private verifyPortableNames(
+        placedFiles: FileInfo[],
+        filenameChecks: FilenameCheckOptions,
+        fullArchivePath: string,
+        fullTargetPath: string
+    ): void {
+        const { valid, problems } = validateAllEntries(placedFiles, fullArchivePath, { ...filenameChecks, targetPath: fullTargetPath });
+        if (!valid) {
+            const names = [...new Set(problems.map(problem => problem.filename))];
+            throw new ArchiveError(
+                `${names.length} file name(s) are not valid on every platform: ${names.slice(0, 5).join(', ')}${names.length > 5 ? ', ...' : ''}`,
+                ArchiveErrorCode.INVALID_PATH,
+                { archivePath: fullArchivePath, problems }
+            );
+        }
+    }
+
+    /**
+     * Bytes an extraction adds to the target volume. Without staging, files 7za skips
+     * take no space, and files it overwrites free theirs.
+     */
+    private extractionSize(
+        placements: EntryPlacement[],
+        conflicts: FileConflict[],
+        conflictPolicy: ConflictPolicy,
+        useStaging: boolean
+    ): number {
+        let bytes = placements.reduce((sum, { file }) => sum + file.size, 0);
+        if (!useStaging) {
+            const sizes = new Map(placements.map(({ file }) => [file.filename, file.size]));
+            for (const conflict of conflicts) {
+                if (conflictPolicy === ConflictPolicy.SKIP) {
+                    bytes -= sizes.get(conflict.filename) ?? 0;
+                } else if (conflictPolicy === ConflictPolicy.OVERWRITE) {
+                    bytes -= conflict.existingSize;
+                }
+            }
+        }
+        return Math.max(bytes, 0);
+    }
+
+    /**
+     * Returns a unique hidden path next to the given file.
+     * Being on the same file system, it can be renamed over the file atomically.
+     */
+    private createTempPath(fullPath: string): string {
+        const name = `.${path.basename(fullPath)}.${randomBytes(4).toString('hex')}.tmp`;
+        return path.join(path.dirname(fullPath), name);
+    }
+
+    /**
+     * Moves an archive written to a temporary path over the target.
+     * For a split archive (staleVolumes given), every temporary volume replaces the volume with
+     * the same number, then volumes of the previous set beyond the new last one are removed.
+     */
+    private async replaceWithTemp(tempPath: string, fullArchivePath: string, staleVolumes?: string[]): Promise<void> {
+        if (!staleVolumes) {
+            await fs.rename(tempPath, fullArchivePath);
+            return;
+        }
+
+        const tempVolumes = await listVolumes(tempPath);
+        for (const tempVolume of tempVolumes) {
+            await fs.rename(tempVolume, volumePath(fullArchivePath, volumeIndex(tempVolume) ?? 0));
+        }
+        const leftover = staleVolumes.filter(volume => (volumeIndex(volume) ?? 0) > tempVolumes.length);
+        await Promise.all(leftover.map(volume => fs.rm(volume, { force: true })));
+    }
+
+    /**
+     * Removes a temporary archive (and its volumes, if split) after a failed or cancelled operation.
+     */
+    private async removeTemp(tempPath: string): Promise<void> {
+        const files = [tempPath, ...(await listVolumes(tempPath))];
+        await Promise.all(files.map(file => fs.rm(file, { force: true }).catch(() => {})));
+    }
+
+    /**
+     * Walks the sources with the include/exclude/recursive/skipHidden options and works out
+     * the entry names they leave out, to pass to 7za as exclusions.
+     * Throws FILE_NOT_FOUND if no source file is left.
+     */
+    private async applySourceFilter(
+        roots: SourceRoot[],
+        filter: SourceFilter
+    ): Promise<{ sources: SourceRoot[]; totals: ProgressTotals; excluded: string[] }> {
+        for (const patterns of [filter.include, filter.exclude]) {
+            if (patterns?.some(pattern => typeof pattern !== 'string' || pattern.trim() === '')) {
+                throw new ArchiveError(
+                    'Include and exclude patterns must be non-empty strings',
+                    ArchiveErrorCode.INVALID_OPTIONS,
+                    { include: filter.include, exclude: filter.exclude }
+                );
+            }
+        }
+
+        let selection;
+        try {
+            selection = await selectSources(roots, filter);
+        } catch (error) {
+            const filePath = (error as NodeJS.ErrnoException).path ?? roots[0].fullPath;
+            throw createErrorFromFsError(error, filePath);
+        }
+
+        if (selection.sources.length === 0) {
+            throw new ArchiveError(
+                'No source files match the filters',
+                ArchiveErrorCode.FILE_NOT_FOUND,
+                { sourcePaths: roots.map(root => root.fullPath), include: filter.include, exclude: filter.exclude }
+            );
+        }
+
+        return { sources: selection.sources, totals: selection.totals, excluded: selection.excluded };
+    }
+
+    /**
+     * Works out the entry name of each source: its basename, or its path relative to baseDir,
+     * placed under the prefix, unless entryNames gives one. Every entry name is validated.
+     * Sources are stored under unique names, which renames turn into their entry names.
+     */
+    private resolveSourceLayout(sourcePaths: string[], naming: EntryNaming, fullArchivePath: string): SourceLayout {
+        const baseDir = naming.baseDir !== undefined ? path.resolve(naming.baseDir) : undefined;
+        const prefix = naming.prefix !== undefined ? this.normalizeEntryName(naming.prefix, fullArchivePath) : undefined;
+        const entryNames = new Map(Object.entries(naming.entryNames ?? {}).map(
+            ([sourcePath, entryName]) => [path.resolve(sourcePath), this.normalizeEntryName(entryName, fullArchivePath)]
+        ));
+
+        const unknownSources = [...entryNames.keys()].filter(sourcePath => !sourcePaths.includes(sourcePath));
+        if (unknownSources.length > 0) {
+            throw new ArchiveError(
+                `entryNames refers to paths that are not sources: ${unknownSources.join(', ')}`,
+                ArchiveErrorCode.INVALID_OPTIONS,
+                { unknownSources }
+            );
+        }
+
+        const roots = sourcePaths.map((fullPath): SourceRoot => {
+            let storedName = path.basename(fullPath);
+            if (baseDir !== undefined) {
+                const relativePath = path.relative(baseDir, fullPath);
+                if (!this.isBelowDirectory(relativePath)) {
+                    throw new ArchiveError(
+                        `Source is not inside the base directory: ${fullPath}`,
+                        ArchiveErrorCode.INVALID_PATH,
+                        { path: fullPath, baseDir }
+                    );
+                }
+                storedName = relativePath.split(path.sep).join('/');
+            }
+
+            const entryName = entryNames.get(fullPath) ?? (prefix ? `${prefix}/${storedName}` : storedName);
+            validateEntryPath(entryName, fullArchivePath);
+            return { fullPath, storedName, entryName };
+        });
+
+        const duplicates = roots
+            .map(root => root.entryName)
+            .filter((entryName, index, names) => names.indexOf(entryName) !== index);
+        if (duplicates.length > 0) {
+            throw new ArchiveError(
+                `Several sources would be stored as: ${[...new Set(duplicates)].join(', ')}`,
+                ArchiveErrorCode.INVALID_OPTIONS,
+                { duplicates }
+            );
+        }
+
+        // Sources with the same name (e.g., 'a/out.tif' and 'b/out.tif' given different entryNames) would
+        // clash in 7za, so they are added by their paths below a common parent and renamed afterwards
+        let cwd = baseDir;
+        const storedNames = roots.map(root => root.storedName);
+        if (cwd === undefined && new Set(storedNames).size < storedNames.length) {
+            cwd = this.findCommonParent(sourcePaths);
+            for (const root of roots) {
+                root.storedName = path.relative(cwd, root.fullPath).split(path.sep).join('/');
+            }
+        }
+
+        const renames = roots
+            .filter(root => root.storedName !== root.entryName)
+            .map((root): [string, string] => [root.storedName, root.entryName]);
+        return { roots, cwd, renames };
+    }
+
+    /**
+     * Returns the closest directory that all the paths lie below.
+     * Throws INVALID_OPTIONS if there is none (e.g., paths on different Windows drives).
+     */
+    private findCommonParent(fullPaths: string[]): string {
+        let parent = path.dirname(fullPaths[0]);
+        while (!fullPaths.every(fullPath => this.isBelowDirectory(path.relative(parent, fullPath)))) {
+            if (path.dirname(parent) === parent) {
+                throw new ArchiveError(
+                    'Sources with the same name must share a parent directory',
+                    ArchiveErrorCode.INVALID_OPTIONS,
+                    { sourcePaths: fullPaths }
+                );
+            }
+            parent = path.dirname(parent);
+        }
+        return parent;
+    }
+
+    /**
+     * Checks whether a path relative to a directory lies below it (not the directory itself or outside).
+     */
+    private isBelowDirectory(relativePath: string): boolean {
+        return relativePath !== '' && relativePath !== '..' && !relativePath.startsWith(`..${path.sep}`) && !path.isAbsolute(relativePath);
+    }
+
+    /**
+     * Validates an entry name or prefix given in options and normalizes it to '/'-separators
+     * without './' or trailing slashes. Throws INVALID_OPTIONS if nothing is left.
+     */
+    private normalizeEntryName(entryName: string, fullArchivePath: string): string {
+        validateEntryPath(entryName, fullArchivePath);
+        const normalized = path.posix.normalize(entryName.replace(/\\/g, '/')).replace(/\/+$/, '');
+        if (normalized === '' || normalized === '.') {
+            throw new ArchiveError(
+                `Invalid entry name: '${entryName}'`,
+                ArchiveErrorCode.INVALID_OPTIONS,
+                { entryName }
+            );
+        }
+        return normalized;
+    }
+
+    /**
+     * Source arguments for 7za: absolute paths, or paths relative to the layout's cwd.
+     */
+    private sourceArgs(sources: SourceRoot[], layout: SourceLayout): string[] {
+        return sources.map(root => layout.cwd ? root.storedName : root.fullPath);
+    }
+
+    /**
+     * Renames freshly added entries to their final names (7za rn), before the archive replaces the target.
+     */
+    private async renameAddedEntries(
+        outputPath: string,
+        fullArchivePath: string,
+        format: ArchiveFormat,
+        renames: [string, string][],
+        encryption: EncryptionOptions | undefined,
+        tracker: ProgressTracker
+    ): Promise<void> {
+        tracker.setPhase(ProgressPhase.RENAMING, {}, percent => `Naming entries...${percent}%`);
+
+        // Without the encryption switches, 7za would write the headers back unencrypted
+        const command: SevenZipCommand = {
+            command: 'rn',
+            switches: [formatSwitch(format), '-bsp1', '-bso0', ...this.encryptionSwitches(format, encryption)],
+            archivePath: outputPath,
+            names: renames.flat(),
+        };
+        const stdin = encryption ? `${encryption.password}\n${encryption.password}\n` : undefined;
+
+        const { exitCode, stderr } = await this.runProcess(command, (message) => {
+            if (this.status <= 0) return;
+            tracker.push(message);
+        }, stdin);
+
+        if (exitCode !== 0) {
+            throw this.createProcessError(exitCode, fullArchivePath, stderr, encryption?.password);
+        }
+    }
+
+    /**
+     * Throws FILE_NOT_FOUND if any entry matches neither a file nor a directory in the listing.
+     */
+    private verifyEntriesExist(files: FileInfo[], entries: string[], fullArchivePath: string): void {
+        const missingEntries = entries.filter(entry => !files.some(file => this.isEntryOrChild(file.filename, entry)));
+        if (missingEntries.length > 0) {
+            throw new ArchiveError(
+                `Entries not found in archive: ${missingEntries.join(', ')}`,
+                ArchiveErrorCode.FILE_NOT_FOUND,
+                { archivePath: fullArchivePath, missingEntries }
+            );
+        }
+    }
+
+    /**
+     * Checks whether a file path is the entry itself or lies below it (entry is a directory).
+     */
+    private isEntryOrChild(filename: string, entry: string): boolean {
+        const normalizedFile = normalizePath(filename);
+        const normalizedEntry = normalizePath(entry).replace(/\/$/, '');
+        return normalizedFile === normalizedEntry || normalizedFile.startsWith(`${normalizedEntry}/`);
+    }
+
+    /**
+     * Creates a progress tracker whose legacy messages also become the operation's status message.
+     * Its state is attached to timeout errors once the operation starts.
+     */
+    private createTracker(onProgress?: ProgressCallback, onProgressEvent?: ProgressEventCallback): ProgressTracker {
+        return createProgressTracker((progress, message) => {
+            this.lastMessage = message;
+            onProgress?.(progress, message);
+        }, onProgressEvent);
+    }
+
+    /**
+     * Starts cancellation and timeout tracking for a new operation.
+     * Called once options are validated, right before the operation's try block, so cleanup() always stops the timer.
+     * Per-operation limits override the configured defaults.
+     * Throws OperationCancelledError if the signal is already aborted.
+     */
+    private attachAbortControls(options: OperationControls | undefined, tracker: ProgressTracker): void {
+        const timeoutMs = options?.timeoutMs ?? this.config.timeoutMs ?? 0;
+        const stallTimeoutMs = options?.stallTimeoutMs ?? this.config.stallTimeoutMs ?? 0;
+        this.verifyTimeout('timeoutMs', timeoutMs);
+        this.verifyTimeout('stallTimeoutMs', stallTimeoutMs);
+
+        this.clearTimeoutTimer();
+        this.signal = options?.signal;
+        this.abortError = null;
+        this.stallTimeoutMs = stallTimeoutMs;
+        this.tracker = tracker;
+        this.throwIfAborted();
+
+        if (timeoutMs > 0) {
+            this.timeoutTimer = setTimeout(() => {
+                this.abort(this.createTimeoutError(timeoutMs, false));
+            }, timeoutMs);
+            // A pending limit alone shouldn't keep the process alive
+            this.timeoutTimer.unref();
+        }
+    }
+
+    /**
+     * Rejects timeout values that are not a non-negative number of milliseconds.
+     */
+    private verifyTimeout(name: string, value: number): void {
+        if (!Number.isFinite(value) || value < 0) {
+            throw new ArchiveError(
+                `${name} must be a non-negative number of milliseconds`,
+                ArchiveErrorCode.INVALID_OPTIONS,
+                { [name]: value }
+            );
+        }
+    }
+
+    /**
+     * Stops the current operation with the given error and force-kills 7za.
+     * The first error wins if the operation is stopped more than once.
+     */
+    private abort(error: ArchiveError): void {
+        this.abortError ??= error;
+        this.status = ProcessStatus.ERROR;
+        this.lastMessage = this.abortError.message;
+        if (this.process) {
+            killProcessTree(this.process);
+        }
+    }
+
+    /**
+     * Returns the error the current operation must reject with, if it was cancelled or timed out.
+     */
+    private getAbortError(): ArchiveError | null {
+        if (!this.abortError && this.signal?.aborted) {
+            this.abortError = new OperationCancelledError(this.currentArchivePath);
+        }
+        return this.abortError;
+    }
+
+    /**
+     * Throws between steps that don't run 7za (e.g., path validation) once the operation
+     * was cancelled or timed out.
+     */
+    private throwIfAborted(): void {
+        const abortError = this.getAbortError();
+        if (abortError) {
+            throw abortError;
+        }
+    }
+
+    /**
+     * Creates a PROCESS_TIMEOUT error carrying the last progress state.
+     */
+    private createTimeoutError(limitMs: number, stalled: boolean): ProcessTimeoutError {
+        return new ProcessTimeoutError(this.currentArchivePath, limitMs, stalled, this.tracker?.current);
+    }
+
+    /**
+     * Stops the operation time limit.
+     */
+    private clearTimeoutTimer(): void {
+        if (this.timeoutTimer) {
+            clearTimeout(this.timeoutTimer);
+            this.timeoutTimer = null;
+        }
+    }
+
+    /**
+     * Rejects passwords that cannot be answered on a single line of stdin.
+     */
+    private verifyPassword(password?: string): void {
+        if (password && /[\r\n\0]/.test(password)) {
+            throw new ArchiveError(
+                'Password must not contain line breaks or null bytes',
+                ArchiveErrorCode.INVALID_OPTIONS
+            );
+        }
+    }
+
+    /**
+     * Returns the 7za switches for AES-256 encryption.
+     * -p without a value makes 7za read the password from stdin.
+     */
+    private encryptionSwitches(format: ArchiveFormat, encryption?: EncryptionOptions): string[] {
+        if (!encryption) {
+            return [];
+        }
+
+        const switches = ['-p'];
+        if (format === ArchiveFormat.ZIP) {
+            // ZIP defaults to the weak ZipCrypto method
+            switches.push('-mem=AES256');
+        }
+        if (encryption.encryptHeaders) {
+            switches.push('-mhe=on');
+        }
+        return switches;
+    }
+
+    /**
+     * Creates error for a failed 7za process, redacting the password from its stderr.
+     */
+    private createProcessError(
+        exitCode: number,
+        fullArchivePath: string,
+        stderr: string,
+        password?: string
+    ): ArchiveError {
+        const redacted = password ? stderr.split(password).join('***') : stderr;
+        const error = createErrorFromExitCode(exitCode, fullArchivePath, redacted, !!password);
+
+        // 7za reports a split archive with missing trailing volumes as truncated or unreadable
+        if (volumeIndex(fullArchivePath) !== null && error.code !== ArchiveErrorCode.WRONG_PASSWORD) {
+            const missingVolume = findTruncatedVolume(fullArchivePath);
+            if (missingVolume) {
+                return new MissingVolumeError(fullArchivePath, [path.basename(missingVolume)]);
+            }
+        }
+
+        return error;
+    }
+
     /**
      * Creates error for spawn failures.
      */
@@ -655,9 +2305,11 @@ export class ArchiveOps {
         message: string,
         files: FileInfo[],
         basePath: string,
-        exitCode: number
+        exitCode: number,
+        format?: ArchiveFormat
     ): ArchiveOpResult {
         const runtime = (Date.now() - this.startTime) / 1000;
+        const type = this.activeOp;
 
         this.status = ProcessStatus.SUCCESS;
         this.lastMessage = message;
@@ -666,11 +2318,12 @@ export class ArchiveOps {
         return {
             success: true,
             runtime,
-            type: this.activeOp,
+            type,
             message,
             files,
             basePath: normalizePath(basePath),
             exitCode,
+            format,
         };
     }
 
@@ -679,6 +2332,7 @@ export class ArchiveOps {
      */
     private cleanup(): void {
         this.activeOp = ArchiveOpType.UNDEFINED;
+        this.clearTimeoutTimer();
 
         if (this.process && !this.process.killed) {
             this.process.kill();
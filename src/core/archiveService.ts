@@ -5,11 +5,15 @@ import {
     type ArchiveServiceConfig,
     type ArchiveOpResult,
     type JobHandle,
+    type ListOptions,
     type DecompressOptions,
     type CompressOptions,
+    type TestOptions,
+    type UpdateOptions,
+    type EditOptions,
     ProcessStatus,
-    CompressionLevel,
 } from '../types/archive.types.js';
+import { OperationCancelledError } from '../types/errors.types.js';
 
 //#region TYPES
 
@@ -20,7 +24,10 @@ interface QueuedJob {
     operation: () => Promise<ArchiveOpResult>;
     resolve: (result: ArchiveOpResult) => void;
     reject: (error: Error) => void;
-    worker: ArchiveOps | null;
+    /** Aborts the running operation when the job is cancelled */
+    controller: AbortController;
+    /** Removes the abort listener from the caller's signal */
+    detachSignal: () => void;
 }
 
 //#endregion
@@ -88,10 +95,10 @@ export class ArchiveService {
         destPath: string,
         options?: DecompressOptions
     ): JobHandle {
-        return this.submitJob(() => {
+        return this.submitJob((signal) => {
             const worker = this.createWorker();
-            return worker.decompress(archivePath, destPath, options?.fileList, options?.onProgress);
-        });
+            return worker.decompress(archivePath, destPath, { ...options, signal });
+        }, options?.signal);
     }
 
     /**
@@ -102,20 +109,20 @@ export class ArchiveService {
         archivePath: string,
         options?: CompressOptions
     ): JobHandle {
-        return this.submitJob(() => {
+        return this.submitJob((signal) => {
             const worker = this.createWorker();
-            return worker.compress(sourceFiles, archivePath, options?.level ?? CompressionLevel.FAST, options?.onProgress);
-        });
+            return worker.compress(sourceFiles, archivePath, { ...options, signal });
+        }, options?.signal);
     }
 
     /**
      * Submits a list job to the queue.
      */
-    public submitList(archivePath: string): JobHandle {
-        return this.submitJob(() => {
+    public submitList(archivePath: string, options?: ListOptions): JobHandle {
+        return this.submitJob((signal) => {
             const worker = this.createWorker();
-            return worker.listEntries(archivePath);
-        });
+            return worker.listEntries(archivePath, { ...options, signal });
+        }, options?.signal);
     }
 
     /**
@@ -124,12 +131,13 @@ export class ArchiveService {
     public submitExtractSingle(
         archivePath: string,
         entryPath: string,
-        destPath: string
+        destPath: string,
+        options?: Omit<DecompressOptions, 'fileList'>
     ): JobHandle {
-        return this.submitJob(() => {
+        return this.submitJob((signal) => {
             const worker = this.createWorker();
-            return worker.extractSingle(archivePath, entryPath, destPath);
-        });
+            return worker.extractSingle(archivePath, entryPath, destPath, { ...options, signal });
+        }, options?.signal);
     }
 
     /**
@@ -137,12 +145,43 @@ export class ArchiveService {
      */
     public submitUpdate(
         archivePath: string,
-        sourceFiles: string[]
+        sourceFiles: string[],
+        options?: UpdateOptions
     ): JobHandle {
-        return this.submitJob(() => {
+        return this.submitJob((signal) => {
             const worker = this.createWorker();
-            return worker.update(archivePath, sourceFiles);
-        });
+            return worker.update(archivePath, sourceFiles, { ...options, signal });
+        }, options?.signal);
+    }
+
+    /**
+     * Submits an integrity test job to the queue.
+     */
+    public submitTest(archivePath: string, options?: TestOptions): JobHandle {
+        return this.submitJob((signal) => {
+            const worker = this.createWorker();
+            return worker.test(archivePath, { ...options, signal });
+        }, options?.signal);
+    }
+
+    /**
+     * Submits a job that deletes entries from an archive.
+     */
+    public submitDelete(archivePath: string, entries: string[], options?: EditOptions): JobHandle {
+        return this.submitJob((signal) => {
+            const worker = this.createWorker();
+            return worker.deleteEntries(archivePath, entries, { ...options, signal });
+        }, options?.signal);
+    }
+
+    /**
+     * Submits a job that renames entries inside an archive.
+     */
+    public submitRename(archivePath: string, mapping: Record<string, string>, options?: EditOptions): JobHandle {
+        return this.submitJob((signal) => {
+            const worker = this.createWorker();
+            return worker.renameEntries(archivePath, mapping, { ...options, signal });
+        }, options?.signal);
     }
 
     //#endregion
@@ -168,6 +207,8 @@ export class ArchiveService {
 
     /**
      * Cancels a specific job by ID.
+     * Queued jobs are rejected immediately; running jobs stop 7za and reject once it exits.
+     * Either way the job promise rejects with OPERATION_CANCELLED.
      * Returns true if job was found and cancelled.
      */
     public cancelJob(jobId: string): boolean {
@@ -176,22 +217,18 @@ export class ArchiveService {
             return false;
         }
 
-        // If running, cancel the worker
-        if (job.worker && job.status === ProcessStatus.RUNNING) {
-            job.worker.cancel();
-            this.activeJobs--;
+        // Running jobs settle through their operation, which frees the slot
+        job.controller.abort();
+        if (job.status === ProcessStatus.RUNNING) {
+            return true;
         }
 
-        // Reject the promise
+        // Queued jobs never started, so no slot needs freeing
         job.status = ProcessStatus.ERROR;
-        job.reject(new Error('Job cancelled'));
-
-        // Remove from queue
+        job.detachSignal();
+        job.reject(new OperationCancelledError());
         this.queue.delete(jobId);
 
-        // Process next job
-        this.processQueue();
-
         return true;
     }
 
@@ -199,16 +236,9 @@ export class ArchiveService {
      * Cancels all pending and running jobs.
      */
     public cancelAll(): void {
-        for (const [jobId, job] of this.queue) {
-            if (job.worker && job.status === ProcessStatus.RUNNING) {
-                job.worker.cancel();
-            }
-            job.status = ProcessStatus.ERROR;
-            job.reject(new Error('All jobs cancelled'));
+        for (const jobId of [...this.queue.keys()]) {
+            this.cancelJob(jobId);
         }
-
-        this.queue.clear();
-        this.activeJobs = 0;
     }
 
     /**
@@ -248,7 +278,14 @@ export class ArchiveService {
      * Creates a new ArchiveOps worker with the service config.
      */
     private createWorker(): ArchiveOps {
-        return new ArchiveOps({ executablePath: this.config.executablePath });
+        return new ArchiveOps({
+            executablePath: this.config.executablePath,
+            timeoutMs: this.config.timeoutMs,
+            stallTimeoutMs: this.config.stallTimeoutMs,
+            extractionLimits: this.config.extractionLimits,
+            diskSpaceCheck: this.config.diskSpaceCheck,
+            timeZone: this.config.timeZone,
+        });
     }
 
     /**
@@ -260,9 +297,11 @@ export class ArchiveService {
 
     /**
      * Submits a job to the queue and returns a JobHandle.
+     * The operation receives a signal that aborts when the job or the caller's signal is cancelled.
      */
-    private submitJob(operation: () => Promise<ArchiveOpResult>): JobHandle {
+    private submitJob(operation: (signal: AbortSignal) => Promise<ArchiveOpResult>, signal?: AbortSignal): JobHandle {
         const jobId = this.generateJobId();
+        const controller = new AbortController();
 
         let resolvePromise: (result: ArchiveOpResult) => void;
         let rejectPromise: (error: Error) => void;
@@ -272,17 +311,29 @@ export class ArchiveService {
             rejectPromise = reject;
         });
 
+        const onAbort = (): void => {
+            this.cancelJob(jobId);
+        };
+
         const job: QueuedJob = {
             id: jobId,
             status: ProcessStatus.QUEUED,
-            operation,
+            operation: () => operation(controller.signal),
             resolve: resolvePromise!,
             reject: rejectPromise!,
-            worker: null,
+            controller,
+            detachSignal: () => signal?.removeEventListener('abort', onAbort),
         };
 
         this.queue.set(jobId, job);
 
+        // A signal that is already aborted cancels the job before it can start
+        if (signal?.aborted) {
+            this.cancelJob(jobId);
+        } else {
+            signal?.addEventListener('abort', onAbort, { once: true });
+        }
+
         // Try to process immediately
         this.processQueue();
 
@@ -337,6 +388,7 @@ export class ArchiveService {
      * Cleans up after a job completes.
      */
     private cleanupJob(jobId: string): void {
+        this.queue.get(jobId)?.detachSignal();
         this.queue.delete(jobId);
         this.activeJobs--;
 
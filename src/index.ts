@@ -7,20 +7,48 @@ export { ArchiveService } from './core/archiveService.js';
 // Types - enums
 export {
     CompressionLevel,
+    ArchiveFormat,
     ArchiveOpType,
     ProcessStatus,
+    EntryTestStatus,
+    ConflictPolicy,
+    EntryKind,
+    LinkPolicy,
+    TimeZonePolicy,
+    MtimePolicy,
+    FilenameIssue,
+    ProgressPhase,
 } from './types/archive.types.js';
 
 // Types - interfaces
 export type {
     FileInfo,
+    ArchiveInfo,
+    EntryTestResult,
+    FileConflict,
+    MtimeMismatch,
+    FilenameProblem,
+    FilenameReport,
     ArchiveOpResult,
+    ProgressEvent,
     ProgressCallback,
+    ProgressEventCallback,
+    EntryCallback,
     EndCallback,
     ArchiveOpsConfig,
     ArchiveServiceConfig,
+    OperationControls,
+    ListOptions,
+    EntrySelector,
+    ExtractionLimits,
+    DiskSpaceCheck,
+    FilenameCheckOptions,
     DecompressOptions,
+    TestOptions,
     CompressOptions,
+    EncryptionOptions,
+    UpdateOptions,
+    EditOptions,
     JobHandle,
 } from './types/archive.types.js';
 
@@ -29,11 +57,17 @@ export {
     ArchiveErrorCode,
     ArchiveError,
     EncryptedArchiveError,
+    WrongPasswordError,
     PathTraversalError,
     ExecutableNotFoundError,
     UnsupportedFormatError,
     OperationInProgressError,
+    OperationCancelledError,
+    ProcessTimeoutError,
+    FileConflictError,
     CorruptArchiveError,
+    MissingVolumeError,
+    ExtractionLimitError,
 } from './types/errors.types.js';
 
 // Utilities (for advanced users)
@@ -45,9 +79,29 @@ export {
     resolveExtractPath,
 } from './utils/pathValidation.js';
 
+export {
+    detectFormat,
+    formatFromExtension,
+    READABLE_FORMATS,
+    WRITABLE_FORMATS,
+} from './utils/archiveFormat.js';
+
+export {
+    volumeIndex,
+    listVolumes,
+} from './utils/volumes.js';
+
+export {
+    createTestOutputParser,
+    classifyTestError,
+} from './utils/testParser.js';
+
 export {
     parseSltOutput,
+    parseSltEntries,
     parseSltString,
+    parseSltArchiveType,
+    parseSltArchiveInfo,
     hasEncryptedFiles,
     findEncryptedFile,
 } from './utils/sltParser.js';
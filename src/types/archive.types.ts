@@ -9,6 +9,17 @@ export enum CompressionLevel {
     NORMAL = 5,     // -mx5 (balanced)
 }
 
+/** Archive formats, values match the 7za -t switch (except TAR_GZIP, read as gzip piped into tar) */
+export enum ArchiveFormat {
+    ZIP = 'zip',
+    SEVEN_ZIP = '7z',
+    RAR = 'rar',            // Read-only
+    TAR = 'tar',            // Read-only
+    GZIP = 'gzip',          // Read-only, single compressed file
+    TAR_GZIP = 'tar.gz',    // Read-only
+    ISO = 'iso',            // Read-only
+}
+
 /** Archive operation types */
 export enum ArchiveOpType {
     UNDEFINED = 0,
@@ -17,6 +28,9 @@ export enum ArchiveOpType {
     LIST = 3,
     EXTRACT_SINGLE = 4,
     UPDATE = 5,
+    TEST = 6,
+    DELETE = 7,
+    RENAME = 8,
 }
 
 /** Process status for internal state tracking */
@@ -29,10 +43,84 @@ export enum ProcessStatus {
     RUNNING = 11,
 }
 
+/** Integrity test outcome for a single entry */
+export enum EntryTestStatus {
+    OK = 'ok',
+    CRC_ERROR = 'crc_error',
+    DATA_ERROR = 'data_error',
+    UNSUPPORTED_METHOD = 'unsupported_method',
+    WRONG_PASSWORD = 'wrong_password',
+    ERROR = 'error',            // Any other 7za error (e.g., headers error)
+}
+
+/** How decompress handles entries whose target path already exists */
+export enum ConflictPolicy {
+    OVERWRITE = 'overwrite',    // Replace the existing file (7za -aoa)
+    SKIP = 'skip',              // Keep the existing file (7za -aos)
+    RENAME = 'rename',          // Extract under a new name, e.g. 'file_1.txt' (7za -aou)
+    FAIL = 'fail',              // Throw FILE_CONFLICT before anything is extracted
+}
+
+/** Kind of archive entry */
+export enum EntryKind {
+    FILE = 'file',
+    DIRECTORY = 'directory',
+    SYMLINK = 'symlink',
+    HARDLINK = 'hardlink',
+}
+
+/** How decompress handles symbolic and hard link entries */
+export enum LinkPolicy {
+    EXTRACT = 'extract',        // Extract links whose targets stay inside the target directory (PATH_TRAVERSAL otherwise)
+    SKIP = 'skip',              // Leave links out
+    REFUSE = 'refuse',          // Throw INVALID_PATH before anything is extracted if a link was selected
+}
+
+/** Time zone in which 7za reports and sets entry times */
+export enum TimeZonePolicy {
+    LOCAL = 'local',            // The time zone of this process, which 7za inherits
+    UTC = 'utc',                // 7za runs with TZ=UTC, so listings give the same dates on every server
+}
+
+/** What decompress does with the modification times of extracted files */
+export enum MtimePolicy {
+    KEEP = 'keep',              // Leave the times 7za set
+    VERIFY = 'verify',          // Compare them with the listing; differences are reported in result.mtimeMismatches
+    RESTORE = 'restore',        // Set them from the listing
+}
+
+/** File name problems found by validateAllEntries when given FilenameCheckOptions */
+export enum FilenameIssue {
+    TRAVERSAL = 'traversal',                    // Absolute path, '..' or null byte
+    RESERVED_NAME = 'reserved_name',            // Windows device name, e.g. CON, NUL or COM1.txt
+    TRAILING_DOT_OR_SPACE = 'trailing_dot_or_space', // Dropped by Windows, so the name changes
+    ILLEGAL_CHARACTER = 'illegal_character',    // < > : " | ? * or a control character (invalid on Windows)
+    PATH_TOO_LONG = 'path_too_long',            // Longer than maxPathLength, or a name over 255 characters
+    CASE_COLLISION = 'case_collision',          // Same path on case-insensitive file systems (Windows, macOS)
+    UNICODE_COLLISION = 'unicode_collision',    // Same path after Unicode normalization (NFC vs. NFD, macOS)
+}
+
+/** Stage of a running operation, reported in progress events */
+export enum ProgressPhase {
+    SCANNING = 'scanning',          // Measuring source files
+    LISTING = 'listing',            // Reading the archive's entry list
+    VALIDATING = 'validating',      // Checking entry paths before extraction, or staged files after it
+    COMPRESSING = 'compressing',
+    UPDATING = 'updating',
+    EXTRACTING = 'extracting',
+    COMMITTING = 'committing',      // Moving staged files into the target directory
+    TESTING = 'testing',
+    DELETING = 'deleting',
+    RENAMING = 'renaming',
+}
+
 /** File metadata from archive listing */
 export interface FileInfo {
-    /** File modification date */
-    date: Date;
+    /**
+     * File modification date (undefined if the archive does not store one). Milliseconds are kept
+     * where 7za reports fractions of a second; see TimeZonePolicy for the time zone.
+     */
+    date?: Date;
     /** Uncompressed file size in bytes */
     size: number;
     /** Compressed size in bytes (from -slt output) */
@@ -43,6 +131,117 @@ export interface FileInfo {
     encrypted?: boolean;
     /** CRC checksum (from -slt output) */
     crc?: string;
+    /** Entry kind (FILE unless the listing reports a link, or DIRECTORY in detailed listings) */
+    kind?: EntryKind;
+    /**
+     * Link target as stored: relative to the link's folder for symbolic links, an archive path for
+     * hard links. For ZIP and 7z symbolic links it is read from the entry by listEntries and decompress.
+     */
+    linkTarget?: string;
+    /** Whether the entry is a directory (detailed listings only; other listings leave directories out) */
+    isDirectory?: boolean;
+    /** Attributes as reported by 7za, e.g. 'RA', '_ -rw-r--r--' or, for tar, the mode (detailed listings only) */
+    attributes?: string;
+    /** Unix permission bits including setuid, setgid and sticky, e.g. 0o644 (detailed listings only) */
+    unixMode?: number;
+    /** Windows read-only attribute, or no owner write permission (detailed listings only) */
+    readOnly?: boolean;
+    /** Windows hidden attribute (detailed listings only) */
+    hidden?: boolean;
+    /** Compression method, e.g. 'LZMA2:24', 'Deflate' or 'Store' (detailed listings only) */
+    method?: string;
+    /** Creation date, if the archive stores it (detailed listings only) */
+    created?: Date;
+    /** Last access date, if the archive stores it (detailed listings only) */
+    accessed?: Date;
+    /** System the entry was added on, e.g. 'FAT' or 'Unix' (ZIP, detailed listings only) */
+    hostOS?: string;
+    /** Entry comment (ZIP, detailed listings only) */
+    comment?: string;
+    /** Index of the solid block holding the entry (7z, detailed listings only) */
+    block?: number;
+    /** Absolute path the entry was extracted to (decompress only; absent if it was not extracted) */
+    extractedPath?: string;
+}
+
+/** Archive-level metadata from the header of a listing */
+export interface ArchiveInfo {
+    /** Archive type as reported by 7za (e.g., 'zip', '7z', 'tar'); for volumes, the type of the joined archive */
+    type: string;
+    /** Archive size on disk in bytes (all volumes together) */
+    physicalSize?: number;
+    /** Size of the archive headers in bytes */
+    headersSize?: number;
+    /** Compression methods used (e.g., 'LZMA2:24 BCJ'; 7z) */
+    method?: string;
+    /** Whether files are compressed together in solid blocks (7z) */
+    solid?: boolean;
+    /** Number of solid blocks (7z) */
+    blocks?: number;
+    /** Whether the archive is split into volumes */
+    multivolume: boolean;
+    /** Number of volumes */
+    volumes?: number;
+    /** Archive comment (ZIP) */
+    comment?: string;
+    /** Total uncompressed size of the listed files in bytes */
+    totalSize: number;
+    /** totalSize / physicalSize (undefined if the physical size is unknown or 0) */
+    compressionRatio?: number;
+}
+
+/** Per-entry result from the test operation */
+export interface EntryTestResult {
+    /** Relative path within archive */
+    filename: string;
+    /** Test outcome */
+    status: EntryTestStatus;
+    /** 7za error reason (e.g., "CRC Failed") when status is not OK */
+    message?: string;
+}
+
+/** A target path that already existed when extraction started */
+export interface FileConflict {
+    /** Relative path within archive */
+    filename: string;
+    /** Existing path on disk */
+    targetPath: string;
+    /** Size of the existing file in bytes */
+    existingSize: number;
+    /** Modification date of the existing file */
+    existingDate: Date;
+}
+
+/** An extracted file whose modification time differs from the archive listing */
+export interface MtimeMismatch {
+    /** Relative path within archive */
+    filename: string;
+    /** Path of the extracted file */
+    extractedPath: string;
+    /** Modification date in the archive */
+    expected: Date;
+    /** Modification date of the extracted file */
+    actual: Date;
+}
+
+/** A file name problem found by validateAllEntries */
+export interface FilenameProblem {
+    /** Kind of problem */
+    issue: FilenameIssue;
+    /** Entry path the problem was found in */
+    filename: string;
+    /** Description, e.g. "'CON' is a reserved name on Windows" */
+    message: string;
+    /** The other entries it collides with (collisions only) */
+    collidesWith?: string[];
+}
+
+/** All file name problems of a set of entries */
+export interface FilenameReport {
+    /** Whether no problems were found */
+    valid: boolean;
+    /** Problems in listing order (an entry can have several) */
+    problems: FilenameProblem[];
 }
 
 /** Result returned by all ArchiveOps operations */
@@ -57,10 +256,44 @@ export interface ArchiveOpResult {
     message: string;
     /** List of files processed */
     files: FileInfo[];
+    /** Archive-level metadata from the listing header (listEntries only) */
+    archiveInfo?: ArchiveInfo;
     /** Base directory for path reconstruction (e.g., extraction target) */
     basePath?: string;
     /** 7za exit code for diagnostics */
     exitCode?: number;
+    /** Archive format that was read or written */
+    format?: ArchiveFormat;
+    /** Per-entry integrity results (test operation only) */
+    tests?: EntryTestResult[];
+    /** Entries whose target already existed, found before 7za started (decompress only) */
+    conflicts?: FileConflict[];
+    /** Extracted files whose modification time differs from the listing (decompress with MtimePolicy.VERIFY only) */
+    mtimeMismatches?: MtimeMismatch[];
+}
+
+/** Structured progress of a running operation */
+export interface ProgressEvent {
+    /** Current stage of the operation */
+    phase: ProgressPhase;
+    /** Percent complete within the phase (null if unknown, e.g., while listing) */
+    percent: number | null;
+    /** Bytes processed so far (estimated from percent of the known total) */
+    bytesProcessed?: number;
+    /** Total bytes to process, if known */
+    bytesTotal?: number;
+    /** Files processed so far */
+    filesProcessed?: number;
+    /** Total files to process, if known */
+    filesTotal?: number;
+    /** Entry 7za is currently working on */
+    currentEntry?: string;
+    /** Average throughput since the phase started */
+    bytesPerSecond?: number;
+    /** Estimated seconds until the phase completes */
+    etaSeconds?: number;
+    /** Seconds since the phase started */
+    elapsedSeconds: number;
 }
 
 //#endregion
@@ -70,6 +303,12 @@ export interface ArchiveOpResult {
 /** Progress callback for long-running operations */
 export type ProgressCallback = (progress: number | null, message: string) => void;
 
+/** Structured progress callback, called alongside ProgressCallback */
+export type ProgressEventCallback = (event: ProgressEvent) => void;
+
+/** Entry callback, called for each entry as soon as 7za lists it */
+export type EntryCallback = (file: FileInfo) => void;
+
 /** Completion callback */
 export type EndCallback = (result: ArchiveOpResult) => void;
 
@@ -81,6 +320,16 @@ export type EndCallback = (result: ArchiveOpResult) => void;
 export interface ArchiveOpsConfig {
     /** Absolute path to 7za executable */
     executablePath: string;
+    /** Default time limit for a whole operation in milliseconds (0 or omitted: no limit) */
+    timeoutMs?: number;
+    /** Default time 7za may go without any output before it is stopped, in milliseconds (0 or omitted: no limit) */
+    stallTimeoutMs?: number;
+    /** Default limits checked before extracting (each can be overridden per decompress call) */
+    extractionLimits?: ExtractionLimits;
+    /** Default free-space check before decompress and compress (each field can be overridden per call) */
+    diskSpaceCheck?: DiskSpaceCheck;
+    /** Time zone of the dates 7za lists and sets (default: LOCAL) */
+    timeZone?: TimeZonePolicy;
 }
 
 /** Configuration for ArchiveService manager */
@@ -89,22 +338,236 @@ export interface ArchiveServiceConfig {
     executablePath: string;
     /** Maximum concurrent operations (1 for HDD, 2+ for NVMe) */
     maxConcurrent: number;
+    /** Default operation time limit in milliseconds (passed to workers, counted from job start) */
+    timeoutMs?: number;
+    /** Default stall limit in milliseconds (passed to workers) */
+    stallTimeoutMs?: number;
+    /** Default extraction limits (passed to workers) */
+    extractionLimits?: ExtractionLimits;
+    /** Default free-space check (passed to workers) */
+    diskSpaceCheck?: DiskSpaceCheck;
+    /** Time zone of listed and extracted dates (passed to workers) */
+    timeZone?: TimeZonePolicy;
+}
+
+/** Cancellation and time limits, accepted by every operation */
+export interface OperationControls {
+    /** Aborts the operation; it then rejects with OPERATION_CANCELLED */
+    signal?: AbortSignal;
+    /** Overrides the configured timeoutMs for this operation (0 disables it) */
+    timeoutMs?: number;
+    /** Overrides the configured stallTimeoutMs for this operation (0 disables it) */
+    stallTimeoutMs?: number;
+}
+
+/** Options for list operation */
+export interface ListOptions extends OperationControls {
+    /** Password for encrypted archives (sent to 7za via stdin, never on the command line) */
+    password?: string;
+    /** Entry callback, called while the listing is still running */
+    onEntry?: EntryCallback;
+    /** Include directory entries and every -slt field (attributes, method, times, host OS, comment, block) */
+    detailed?: boolean;
+    /**
+     * Read the linkTarget of ZIP and 7z symbolic links, stored as their content (one extra 7za run per link).
+     * listEntries only; tar listings name link targets either way.
+     */
+    linkTargets?: boolean;
+    /** Structured progress callback */
+    onProgressEvent?: ProgressEventCallback;
+}
+
+/**
+ * Chooses entries by matching them against the archive listing.
+ * An entry must meet every criterion given; within globs, regex and extensions one match is enough.
+ */
+export interface EntrySelector {
+    /** Glob patterns for entry paths, e.g. '*.jpg' (any folder) or 'photos/**' */
+    globs?: string[];
+    /** Regular expressions tested against entry paths */
+    regex?: RegExp[];
+    /** File extensions, with or without the dot (case-insensitive), e.g. 'jpg' or '.tar.gz' */
+    extensions?: string[];
+    /** Minimum uncompressed size in bytes (inclusive) */
+    minSize?: number;
+    /** Maximum uncompressed size in bytes (inclusive) */
+    maxSize?: number;
+    /** Earliest modification date (inclusive; entries without a date do not match) */
+    minDate?: Date;
+    /** Latest modification date (inclusive; entries without a date do not match) */
+    maxDate?: Date;
+}
+
+/**
+ * Limits checked against the archive listing before anything is extracted, to stop zip bombs
+ * and oversized archives. They apply to the entries being extracted; 0 or omitted means no limit.
+ * Compression ratios are uncompressed size / compressed size.
+ */
+export interface ExtractionLimits {
+    /** Maximum total uncompressed size in bytes */
+    maxTotalSize?: number;
+    /** Maximum number of files */
+    maxEntries?: number;
+    /** Maximum uncompressed size of a single file in bytes */
+    maxEntrySize?: number;
+    /** Maximum compression ratio of a single file (of its whole block in solid 7z archives; not checked for gzip and tar.gz) */
+    maxEntryRatio?: number;
+    /** Maximum compression ratio over all files (for gzip and tar.gz, of the whole archive against its size on disk) */
+    maxTotalRatio?: number;
+}
+
+/** Cross-platform file name checks for validateAllEntries and decompress */
+export interface FilenameCheckOptions {
+    /** Issues to check for (defaults to all); traversal is always checked */
+    checks?: FilenameIssue[];
+    /** Maximum path length in characters (defaults to 260, the Windows limit) */
+    maxPathLength?: number;
+    /** Directory the entries go to; if given, path lengths include it */
+    targetPath?: string;
+}
+
+/**
+ * Free-space check on the target volume before decompress and compress start writing.
+ * The space needed is the total uncompressed size of the files to extract, or the total size
+ * of the source files to compress.
+ */
+export interface DiskSpaceCheck {
+    /** Run the check (defaults to true); turn off for volumes that misreport free space */
+    enabled?: boolean;
+    /** Bytes that must stay free on top of the space needed (defaults to 0) */
+    marginBytes?: number;
+    /** Extra space as a fraction of the space needed, e.g. 0.1 for 10% (defaults to 0) */
+    marginRatio?: number;
 }
 
 /** Options for decompress operation */
-export interface DecompressOptions {
+export interface DecompressOptions extends OperationControls {
     /** Specific files to extract (extracts all if not provided) */
     fileList?: string[];
+    /** Extract only entries matching these criteria (combined with fileList if both are given) */
+    select?: EntrySelector;
+    /**
+     * Extract into a hidden staging directory next to the target, verify the files, then move them
+     * into place. On failure or cancellation the target is left as it was (replaced files are restored).
+     */
+    staged?: boolean;
+    /** What to do with entries whose target already exists (defaults to OVERWRITE) */
+    conflictPolicy?: ConflictPolicy;
+    /** Remove this many leading folders from entry paths; entries with no path left are skipped */
+    stripComponents?: number;
+    /** Extract every file directly into the target, without its folders */
+    flatten?: boolean;
+    /** Size, count and compression ratio limits (each overrides the configured extractionLimits value) */
+    limits?: ExtractionLimits;
+    /** Free-space check (each field overrides the configured diskSpaceCheck value) */
+    diskSpaceCheck?: DiskSpaceCheck;
+    /** What to do with symbolic and hard links (defaults to EXTRACT: only links that stay inside the target) */
+    linkPolicy?: LinkPolicy;
+    /** Verify or restore the modification times of extracted files (default: KEEP) */
+    mtimePolicy?: MtimePolicy;
+    /**
+     * Check that the paths files are extracted to are valid on Windows, macOS and Linux, and throw
+     * INVALID_PATH with every problem in details.problems if not (targetPath is set automatically)
+     */
+    filenameChecks?: FilenameCheckOptions;
+    /** Password for encrypted archives (sent to 7za via stdin, never on the command line) */
+    password?: string;
+    /** Progress callback */
+    onProgress?: ProgressCallback;
+    /** Structured progress callback */
+    onProgressEvent?: ProgressEventCallback;
+}
+
+/** Options for test operation */
+export interface TestOptions extends OperationControls {
+    /** Password for encrypted archives (sent to 7za via stdin, never on the command line) */
+    password?: string;
     /** Progress callback */
     onProgress?: ProgressCallback;
+    /** Structured progress callback */
+    onProgressEvent?: ProgressEventCallback;
+}
+
+/** AES-256 encryption settings for compress */
+export interface EncryptionOptions {
+    /** Archive password (sent to 7za via stdin, never on the command line) */
+    password: string;
+    /** Also encrypt entry names and headers (.7z only) */
+    encryptHeaders?: boolean;
 }
 
 /** Options for compress operation */
-export interface CompressOptions {
+export interface CompressOptions extends OperationControls {
     /** Compression level (defaults to FAST) */
     level?: CompressionLevel;
+    /** Archive format (inferred from the archive extension if not provided) */
+    format?: ArchiveFormat;
+    /** Encrypt the archive with AES-256 */
+    encryption?: EncryptionOptions;
+    /** Split the archive into volumes of at most this many bytes (name.zip.001, .002, ...) */
+    volumeSize?: number;
+    /**
+     * Store entries relative to this directory instead of under their basename
+     * (e.g., '/data' stores '/data/photos/a.jpg' as 'photos/a.jpg'). Every source must be inside it.
+     */
+    baseDir?: string;
+    /** Folder inside the archive to place every entry under (except those named in entryNames) */
+    prefix?: string;
+    /**
+     * Entry name per source path, e.g. { '/scratch/job42/out.tif': 'masters/out.tif' }.
+     * A directory's contents are stored below its entry name.
+     */
+    entryNames?: Record<string, string>;
+    /** Glob patterns for files to add, e.g. '*.jpg' or 'photos/**' (all files if omitted) */
+    include?: string[];
+    /** Glob patterns for files and directories to leave out, e.g. 'Thumbs.db' or '*.tmp' */
+    exclude?: string[];
+    /** Add the contents of subdirectories of source directories (defaults to true) */
+    recursive?: boolean;
+    /** Leave out hidden and system files: dot-names like .DS_Store, Thumbs.db and desktop.ini */
+    skipHidden?: boolean;
+    /**
+     * Write directly to the archive path instead of a temporary file that replaces it on success.
+     * 7za then adds to an existing archive, and a failure leaves a partial archive behind.
+     */
+    inPlace?: boolean;
+    /** Free-space check (each field overrides the configured diskSpaceCheck value) */
+    diskSpaceCheck?: DiskSpaceCheck;
+    /** Progress callback */
+    onProgress?: ProgressCallback;
+    /** Structured progress callback */
+    onProgressEvent?: ProgressEventCallback;
+}
+
+/** Options for update operation */
+export interface UpdateOptions extends OperationControls {
+    /** Archive format (inferred from the archive extension if not provided) */
+    format?: ArchiveFormat;
+    /** Glob patterns for files to add, e.g. '*.jpg' or 'photos/**' (all files if omitted) */
+    include?: string[];
+    /** Glob patterns for files and directories to leave out, e.g. 'Thumbs.db' or '*.tmp' */
+    exclude?: string[];
+    /** Add the contents of subdirectories of source directories (defaults to true) */
+    recursive?: boolean;
+    /** Leave out hidden and system files: dot-names like .DS_Store, Thumbs.db and desktop.ini */
+    skipHidden?: boolean;
+    /**
+     * Modify the archive directly instead of writing an updated copy that replaces it on success.
+     * A failure can then leave the original archive damaged.
+     */
+    inPlace?: boolean;
+    /** Progress callback */
+    onProgress?: ProgressCallback;
+    /** Structured progress callback */
+    onProgressEvent?: ProgressEventCallback;
+}
+
+/** Options for deleteEntries and renameEntries */
+export interface EditOptions extends OperationControls {
     /** Progress callback */
     onProgress?: ProgressCallback;
+    /** Structured progress callback */
+    onProgressEvent?: ProgressEventCallback;
 }
 
 //#endregion
@@ -1,4 +1,5 @@
 // src/types/errors.types.ts
+import type { ExtractionLimits, FileConflict, ProgressEvent } from './archive.types.js';
 
 //#region ERROR CODES
 
@@ -9,12 +10,16 @@ export enum ArchiveErrorCode {
     PATH_TRAVERSAL = 'PATH_TRAVERSAL',
     FILE_NOT_FOUND = 'FILE_NOT_FOUND',
     DIRECTORY_NOT_FOUND = 'DIRECTORY_NOT_FOUND',
+    INVALID_OPTIONS = 'INVALID_OPTIONS',
 
     // Archive errors
     ENCRYPTED_ARCHIVE = 'ENCRYPTED_ARCHIVE',
+    WRONG_PASSWORD = 'WRONG_PASSWORD',
     CORRUPT_ARCHIVE = 'CORRUPT_ARCHIVE',
     UNSUPPORTED_FORMAT = 'UNSUPPORTED_FORMAT',
     EMPTY_ARCHIVE = 'EMPTY_ARCHIVE',
+    MISSING_VOLUME = 'MISSING_VOLUME',
+    LIMIT_EXCEEDED = 'LIMIT_EXCEEDED',
 
     // Process errors
     EXECUTABLE_NOT_FOUND = 'EXECUTABLE_NOT_FOUND',
@@ -29,6 +34,7 @@ export enum ArchiveErrorCode {
     PERMISSION_DENIED = 'PERMISSION_DENIED',
     DISK_FULL = 'DISK_FULL',
     FILE_IN_USE = 'FILE_IN_USE',
+    FILE_CONFLICT = 'FILE_CONFLICT',
 
     // 7za exit codes
     WARNING = 'WARNING',                       // Exit code 1
@@ -80,13 +86,27 @@ export class EncryptedArchiveError extends ArchiveError {
     }
 }
 
-/** Error thrown when path traversal attack is detected */
+/** Error thrown when the password supplied for an encrypted archive is wrong */
+export class WrongPasswordError extends ArchiveError {
+    constructor(archivePath: string) {
+        super(
+            `Wrong password for encrypted archive: ${archivePath}`,
+            ArchiveErrorCode.WRONG_PASSWORD,
+            { archivePath }
+        );
+        this.name = 'WrongPasswordError';
+    }
+}
+
+/** Error thrown when path traversal attack is detected (an entry path, or a link target given) */
 export class PathTraversalError extends ArchiveError {
-    constructor(maliciousPath: string, archivePath: string) {
+    constructor(maliciousPath: string, archivePath: string, linkTarget?: string) {
         super(
-            `Path traversal detected in archive entry: ${maliciousPath}`,
+            linkTarget === undefined
+                ? `Path traversal detected in archive entry: ${maliciousPath}`
+                : `Link in archive entry points outside the target directory: ${maliciousPath} -> ${linkTarget}`,
             ArchiveErrorCode.PATH_TRAVERSAL,
-            { maliciousPath, archivePath }
+            { maliciousPath, archivePath, linkTarget }
         );
         this.name = 'PathTraversalError';
     }
@@ -106,11 +126,11 @@ export class ExecutableNotFoundError extends ArchiveError {
 
 /** Error thrown when archive format is not supported */
 export class UnsupportedFormatError extends ArchiveError {
-    constructor(archivePath: string, extension: string) {
+    constructor(archivePath: string, extension: string, supportedFormats: string[] = ['.zip', '.7z']) {
         super(
-            `Unsupported archive format: ${extension}. Only .zip is supported.`,
+            `Unsupported archive format: ${extension}. Supported formats: ${supportedFormats.join(', ')}.`,
             ArchiveErrorCode.UNSUPPORTED_FORMAT,
-            { archivePath, extension }
+            { archivePath, extension, supportedFormats }
         );
         this.name = 'UnsupportedFormatError';
     }
@@ -128,6 +148,46 @@ export class OperationInProgressError extends ArchiveError {
     }
 }
 
+/** Error thrown when an operation is cancelled via AbortSignal, cancel() or a job handle */
+export class OperationCancelledError extends ArchiveError {
+    constructor(archivePath?: string) {
+        super(
+            `Operation cancelled${archivePath ? `: ${archivePath}` : ''}`,
+            ArchiveErrorCode.OPERATION_CANCELLED,
+            { archivePath }
+        );
+        this.name = 'OperationCancelledError';
+    }
+}
+
+/** Error thrown when an operation exceeds its time limit, or 7za stops producing output */
+export class ProcessTimeoutError extends ArchiveError {
+    constructor(archivePath: string, limitMs: number, stalled: boolean, lastProgress?: ProgressEvent) {
+        const seconds = limitMs / 1000;
+        super(
+            stalled
+                ? `No progress for ${seconds}s, operation stopped: ${archivePath}`
+                : `Operation timed out after ${seconds}s: ${archivePath}`,
+            ArchiveErrorCode.PROCESS_TIMEOUT,
+            { archivePath, limitMs, stalled, lastProgress }
+        );
+        this.name = 'ProcessTimeoutError';
+    }
+}
+
+/** Error thrown when extraction targets already exist and the conflict policy is FAIL */
+export class FileConflictError extends ArchiveError {
+    constructor(archivePath: string, targetPath: string, conflicts: FileConflict[]) {
+        const names = conflicts.slice(0, 5).map(conflict => conflict.filename).join(', ');
+        super(
+            `${conflicts.length} file(s) already exist in ${targetPath}: ${names}${conflicts.length > 5 ? ', ...' : ''}`,
+            ArchiveErrorCode.FILE_CONFLICT,
+            { archivePath, targetPath, conflicts }
+        );
+        this.name = 'FileConflictError';
+    }
+}
+
 /** Error thrown when archive is corrupted */
 export class CorruptArchiveError extends ArchiveError {
     constructor(archivePath: string, details?: string) {
@@ -140,6 +200,30 @@ export class CorruptArchiveError extends ArchiveError {
     }
 }
 
+/** Error thrown when volumes of a multi-volume (split) archive are missing */
+export class MissingVolumeError extends ArchiveError {
+    constructor(archivePath: string, missingVolumes: string[]) {
+        super(
+            `Missing archive volume(s): ${missingVolumes.join(', ')}`,
+            ArchiveErrorCode.MISSING_VOLUME,
+            { archivePath, missingVolumes }
+        );
+        this.name = 'MissingVolumeError';
+    }
+}
+
+/** Error thrown when an archive exceeds an extraction limit (size, entry count or compression ratio) */
+export class ExtractionLimitError extends ArchiveError {
+    constructor(archivePath: string, limit: keyof ExtractionLimits, value: number, maxValue: number, entry?: string) {
+        super(
+            `Extraction limit ${limit} exceeded (${value} > ${maxValue})${entry ? ` by ${entry}` : ''}: ${archivePath}`,
+            ArchiveErrorCode.LIMIT_EXCEEDED,
+            { archivePath, limit, value, maxValue, entry }
+        );
+        this.name = 'ExtractionLimitError';
+    }
+}
+
 //#endregion
 
 //#region UTILITIES
@@ -151,12 +235,16 @@ interface StderrPattern {
     message: string;
 }
 
+/** Matches 7za's wrong password messages (e.g., "Wrong password?", "Data Error in encrypted file") */
+const WRONG_PASSWORD_PATTERN = /Wrong password|Data Error in encrypted file/i;
+
 const STDERR_PATTERNS: StderrPattern[] = [
     // Corruption errors
     { pattern: /CRC Failed/i, code: ArchiveErrorCode.CORRUPT_ARCHIVE, message: 'CRC check failed - archive is corrupted' },
     { pattern: /Data Error/i, code: ArchiveErrorCode.CORRUPT_ARCHIVE, message: 'Data error - archive is corrupted' },
     { pattern: /Headers Error/i, code: ArchiveErrorCode.CORRUPT_ARCHIVE, message: 'Invalid archive headers - archive is corrupted' },
     { pattern: /Unexpected end of archive/i, code: ArchiveErrorCode.CORRUPT_ARCHIVE, message: 'Unexpected end of archive - file may be truncated' },
+    { pattern: /Unexpected end of data/i, code: ArchiveErrorCode.CORRUPT_ARCHIVE, message: 'Unexpected end of data - file may be truncated' },
     { pattern: /Can not open the file as archive/i, code: ArchiveErrorCode.CORRUPT_ARCHIVE, message: 'Cannot open file as archive - invalid or corrupted' },
     { pattern: /Is not archive/i, code: ArchiveErrorCode.CORRUPT_ARCHIVE, message: 'File is not a valid archive' },
 
@@ -210,10 +298,14 @@ const DEFAULT_MESSAGES: Record<ArchiveErrorCode, string> = {
     [ArchiveErrorCode.PATH_TRAVERSAL]: 'Path traversal detected',
     [ArchiveErrorCode.FILE_NOT_FOUND]: 'File not found',
     [ArchiveErrorCode.DIRECTORY_NOT_FOUND]: 'Directory not found',
+    [ArchiveErrorCode.INVALID_OPTIONS]: 'Invalid options',
     [ArchiveErrorCode.ENCRYPTED_ARCHIVE]: 'Archive is encrypted',
+    [ArchiveErrorCode.WRONG_PASSWORD]: 'Wrong password',
     [ArchiveErrorCode.CORRUPT_ARCHIVE]: 'Archive is corrupted',
     [ArchiveErrorCode.UNSUPPORTED_FORMAT]: 'Unsupported format',
     [ArchiveErrorCode.EMPTY_ARCHIVE]: 'Archive is empty',
+    [ArchiveErrorCode.MISSING_VOLUME]: 'Archive volume is missing',
+    [ArchiveErrorCode.LIMIT_EXCEEDED]: 'Extraction limit exceeded',
     [ArchiveErrorCode.EXECUTABLE_NOT_FOUND]: 'Executable not found',
     [ArchiveErrorCode.SPAWN_FAILED]: 'Failed to spawn process',
     [ArchiveErrorCode.PROCESS_TIMEOUT]: 'Process timed out',
@@ -222,6 +314,7 @@ const DEFAULT_MESSAGES: Record<ArchiveErrorCode, string> = {
     [ArchiveErrorCode.PERMISSION_DENIED]: 'Permission denied',
     [ArchiveErrorCode.DISK_FULL]: 'Disk is full',
     [ArchiveErrorCode.FILE_IN_USE]: 'File is in use',
+    [ArchiveErrorCode.FILE_CONFLICT]: 'Target file already exists',
 };
 
 /**
@@ -240,12 +333,18 @@ export function parseStderrForError(stderr: string): { code: ArchiveErrorCode; m
 /**
  * Creates appropriate ArchiveError from 7za exit code and stderr output.
  * Stderr is parsed first for specific error messages, then falls back to exit code.
+ * When a password was supplied, password failures become WrongPasswordError.
  */
 export function createErrorFromExitCode(
     exitCode: number,
     archivePath: string,
-    stderr: string = ''
+    stderr: string = '',
+    passwordSupplied: boolean = false
 ): ArchiveError {
+    if (passwordSupplied && WRONG_PASSWORD_PATTERN.test(stderr)) {
+        return new WrongPasswordError(archivePath);
+    }
+
     // First, try to parse stderr for a specific error
     const stderrError = parseStderrForError(stderr);
     if (stderrError) {
@@ -273,4 +372,29 @@ export function createErrorFromExitCode(
     );
 }
 
+/** Node.js file system error codes mapped to ArchiveErrorCode */
+const FS_ERROR_CODES: Record<string, ArchiveErrorCode> = {
+    EACCES: ArchiveErrorCode.PERMISSION_DENIED,
+    EPERM: ArchiveErrorCode.PERMISSION_DENIED,
+    ENOSPC: ArchiveErrorCode.DISK_FULL,
+    EBUSY: ArchiveErrorCode.FILE_IN_USE,
+    ENOENT: ArchiveErrorCode.FILE_NOT_FOUND,
+};
+
+/**
+ * Creates an ArchiveError from a failed Node.js file system call.
+ * Unknown error codes become FATAL_ERROR.
+ */
+export function createErrorFromFsError(error: unknown, filePath: string): ArchiveError {
+    const fsCode = (error as NodeJS.ErrnoException)?.code;
+    const errorCode = (fsCode && FS_ERROR_CODES[fsCode]) || ArchiveErrorCode.FATAL_ERROR;
+    const reason = error instanceof Error ? error.message : String(error);
+
+    return new ArchiveError(
+        `${DEFAULT_MESSAGES[errorCode]}: ${reason}`,
+        errorCode,
+        { path: filePath, fsCode }
+    );
+}
+
 //#endregion
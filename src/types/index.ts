@@ -3,19 +3,47 @@
 // Archive types
 export {
     CompressionLevel,
+    ArchiveFormat,
     ArchiveOpType,
     ProcessStatus,
+    EntryTestStatus,
+    ConflictPolicy,
+    EntryKind,
+    LinkPolicy,
+    TimeZonePolicy,
+    MtimePolicy,
+    FilenameIssue,
+    ProgressPhase,
 } from './archive.types.js';
 
 export type {
     FileInfo,
+    ArchiveInfo,
+    EntryTestResult,
+    FileConflict,
+    MtimeMismatch,
+    FilenameProblem,
+    FilenameReport,
     ArchiveOpResult,
+    ProgressEvent,
     ProgressCallback,
+    ProgressEventCallback,
+    EntryCallback,
     EndCallback,
     ArchiveOpsConfig,
     ArchiveServiceConfig,
+    OperationControls,
+    ListOptions,
+    EntrySelector,
+    ExtractionLimits,
+    DiskSpaceCheck,
+    FilenameCheckOptions,
     DecompressOptions,
+    TestOptions,
     CompressOptions,
+    EncryptionOptions,
+    UpdateOptions,
+    EditOptions,
     JobHandle,
 } from './archive.types.js';
 
@@ -24,12 +52,19 @@ export {
     ArchiveErrorCode,
     ArchiveError,
     EncryptedArchiveError,
+    WrongPasswordError,
     PathTraversalError,
     ExecutableNotFoundError,
     UnsupportedFormatError,
     OperationInProgressError,
+    OperationCancelledError,
+    ProcessTimeoutError,
+    FileConflictError,
     CorruptArchiveError,
+    MissingVolumeError,
+    ExtractionLimitError,
     exitCodeToErrorCode,
     createErrorFromExitCode,
+    createErrorFromFsError,
     parseStderrForError,
 } from './errors.types.js';
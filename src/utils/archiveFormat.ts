@@ -0,0 +1,193 @@
+// src/utils/archiveFormat.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { ArchiveFormat } from '../types/archive.types.js';
+import { UnsupportedFormatError } from '../types/errors.types.js';
+
+//#region CONSTANTS
+
+/** File extensions mapped to the archive format they imply (compound extensions first) */
+const EXTENSION_FORMATS: Record<string, ArchiveFormat> = {
+    '.tar.gz': ArchiveFormat.TAR_GZIP,
+    '.tgz': ArchiveFormat.TAR_GZIP,
+    '.zip': ArchiveFormat.ZIP,
+    '.7z': ArchiveFormat.SEVEN_ZIP,
+    '.rar': ArchiveFormat.RAR,
+    '.tar': ArchiveFormat.TAR,
+    '.gz': ArchiveFormat.GZIP,
+    '.iso': ArchiveFormat.ISO,
+};
+
+/** 7za 'Type' values (lowercased) mapped to archive formats */
+const TYPE_FORMATS: Record<string, ArchiveFormat> = {
+    'zip': ArchiveFormat.ZIP,
+    '7z': ArchiveFormat.SEVEN_ZIP,
+    'rar': ArchiveFormat.RAR,
+    'rar5': ArchiveFormat.RAR,
+    'tar': ArchiveFormat.TAR,
+    'gzip': ArchiveFormat.GZIP,
+    'iso': ArchiveFormat.ISO,
+};
+
+/** Formats that can be listed and extracted */
+export const READABLE_FORMATS: readonly ArchiveFormat[] = [
+    ArchiveFormat.ZIP,
+    ArchiveFormat.SEVEN_ZIP,
+    ArchiveFormat.RAR,
+    ArchiveFormat.TAR,
+    ArchiveFormat.GZIP,
+    ArchiveFormat.TAR_GZIP,
+    ArchiveFormat.ISO,
+];
+
+/** Formats that can be created and updated */
+export const WRITABLE_FORMATS: readonly ArchiveFormat[] = [
+    ArchiveFormat.ZIP,
+    ArchiveFormat.SEVEN_ZIP,
+];
+
+/** Magic byte signatures at offset 0 */
+const SIGNATURES: { format: ArchiveFormat; bytes: number[] }[] = [
+    { format: ArchiveFormat.ZIP, bytes: [0x50, 0x4B, 0x03, 0x04] },
+    { format: ArchiveFormat.ZIP, bytes: [0x50, 0x4B, 0x05, 0x06] },    // Empty archive
+    { format: ArchiveFormat.ZIP, bytes: [0x50, 0x4B, 0x07, 0x08] },    // Spanned archive
+    { format: ArchiveFormat.SEVEN_ZIP, bytes: [0x37, 0x7A, 0xBC, 0xAF, 0x27, 0x1C] },
+    { format: ArchiveFormat.RAR, bytes: [0x52, 0x61, 0x72, 0x21, 0x1A, 0x07] },
+    { format: ArchiveFormat.GZIP, bytes: [0x1F, 0x8B] },
+];
+
+/** 'ustar' marker offset in a tar header */
+const TAR_MAGIC_OFFSET = 257;
+
+/** 'CD001' marker offset in the first ISO 9660 volume descriptor */
+const ISO_MAGIC_OFFSET = 0x8001;
+
+/** Bytes needed to check every signature */
+const HEADER_READ_SIZE = ISO_MAGIC_OFFSET + 5;
+
+//#endregion
+
+//#region PUBLIC API
+
+/**
+ * Infers the archive format from a file extension.
+ * Returns null if the extension is not recognized.
+ */
+export function formatFromExtension(archivePath: string): ArchiveFormat | null {
+    const lower = archivePath.toLowerCase();
+    for (const [ext, format] of Object.entries(EXTENSION_FORMATS)) {
+        if (lower.endsWith(ext)) {
+            return format;
+        }
+    }
+    return null;
+}
+
+/**
+ * Maps the 'Type' reported by 7za -slt (e.g., "zip", "Rar5") to an archive format.
+ * Returns null if the type is not one of the supported formats.
+ */
+export function formatFromType(type: string): ArchiveFormat | null {
+    return TYPE_FORMATS[type.toLowerCase()] ?? null;
+}
+
+/**
+ * Detects the archive format from the file's magic bytes, ignoring its extension.
+ * Gzip streams are decoded far enough to tell a .tar.gz from a plain .gz.
+ * Returns null if no known signature matches.
+ */
+export async function detectFormat(archivePath: string): Promise<ArchiveFormat | null> {
+    const handle = await fs.open(archivePath, 'r');
+    let header: Buffer;
+    try {
+        const buffer = Buffer.alloc(HEADER_READ_SIZE);
+        const { bytesRead } = await handle.read(buffer, 0, HEADER_READ_SIZE, 0);
+        header = buffer.subarray(0, bytesRead);
+    } finally {
+        await handle.close();
+    }
+
+    for (const { format, bytes } of SIGNATURES) {
+        if (matchesAt(header, bytes, 0)) {
+            if (format === ArchiveFormat.GZIP && isGzippedTar(header)) {
+                return ArchiveFormat.TAR_GZIP;
+            }
+            return format;
+        }
+    }
+
+    if (isTar(header)) {
+        return ArchiveFormat.TAR;
+    }
+
+    if (header.toString('latin1', ISO_MAGIC_OFFSET, ISO_MAGIC_OFFSET + 5) === 'CD001') {
+        return ArchiveFormat.ISO;
+    }
+
+    return null;
+}
+
+/**
+ * Returns the extensions for a list of formats (e.g., ['.zip', '.7z']).
+ */
+export function formatExtensions(formats: readonly ArchiveFormat[]): string[] {
+    return Object.keys(EXTENSION_FORMATS).filter(ext => formats.includes(EXTENSION_FORMATS[ext]));
+}
+
+/**
+ * Resolves the format to write, using the explicit format if given or inferring it from the extension.
+ * Throws UnsupportedFormatError if the format cannot be written.
+ */
+export function resolveWriteFormat(archivePath: string, format?: ArchiveFormat): ArchiveFormat {
+    const resolved = format ?? formatFromExtension(archivePath);
+    if (resolved === null || !WRITABLE_FORMATS.includes(resolved)) {
+        const ext = path.extname(archivePath).toLowerCase();
+        throw new UnsupportedFormatError(archivePath, resolved ?? (ext || '(none)'), formatExtensions(WRITABLE_FORMATS));
+    }
+    return resolved;
+}
+
+/**
+ * Returns the 7za -t switch for a format (e.g., '-tzip', '-t7z').
+ * TAR_GZIP has no single switch; it is read as gzip piped into tar.
+ */
+export function formatSwitch(format: ArchiveFormat): string {
+    return `-t${format}`;
+}
+
+//#endregion
+
+//#region INTERNAL
+
+/**
+ * Checks whether the buffer contains the given bytes at an offset.
+ */
+function matchesAt(buffer: Buffer, bytes: number[], offset: number): boolean {
+    if (buffer.length < offset + bytes.length) {
+        return false;
+    }
+    return bytes.every((byte, i) => buffer[offset + i] === byte);
+}
+
+/**
+ * Checks for the 'ustar' marker of a POSIX tar header.
+ */
+function isTar(buffer: Buffer): boolean {
+    return buffer.toString('latin1', TAR_MAGIC_OFFSET, TAR_MAGIC_OFFSET + 5) === 'ustar';
+}
+
+/**
+ * Decodes the start of a gzip stream and checks whether it contains a tar header.
+ */
+function isGzippedTar(buffer: Buffer): boolean {
+    try {
+        // Sync flush lets zlib decode a truncated stream without throwing
+        const decoded = zlib.gunzipSync(buffer, { finishFlush: zlib.constants.Z_SYNC_FLUSH });
+        return isTar(decoded);
+    } catch {
+        return false;
+    }
+}
+
+//#endregion
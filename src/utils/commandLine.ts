@@ -0,0 +1,217 @@
+// src/utils/commandLine.ts
+import path from 'path';
+import { ArchiveError, ArchiveErrorCode } from '../types/errors.types.js';
+import { writeListFile, removeListFile } from './listFile.js';
+
+//#region TYPES
+
+/** A 7za invocation, before it is turned into arguments */
+export interface SevenZipCommand {
+    /** 7za command, e.g. 'x' or 'rn' */
+    command: string;
+    /** Switches, each starting with '-' */
+    switches?: string[];
+    /** Archive path (omitted when the archive is read from stdin with -si) */
+    archivePath?: string;
+    /** File paths or entry names after the archive (for rn, old/new name pairs) */
+    names?: string[];
+    /** Pass names through a list file even if none needs it (e.g., thousands of entries) */
+    useListFile?: boolean;
+    /** Entry names to leave out, passed with -x@ through a list file (or as -x! where it would change them) */
+    excludedNames?: string[];
+    /** Directory to extract into, passed with -o */
+    outputDir?: string;
+}
+
+/** Arguments for 7za, and the list files to remove once it has exited */
+export interface CommandLine {
+    args: string[];
+    listFiles: string[];
+}
+
+//#endregion
+
+//#region CONSTANTS
+
+/** 7za reads list files in the console charset unless told otherwise */
+const LIST_FILE_CHARSET = '-scsUTF-8';
+
+/** Takes '*' and '?' in names (and the archive path) literally */
+const NO_WILDCARDS = '-spd';
+
+/** Lines 7za changes when reading a list file: it trims spaces and tabs and removes surrounding quotes */
+const CHANGED_IN_LIST_FILE = /^[ \t]|[ \t]$|^".*"$/s;
+
+//#endregion
+
+//#region PUBLIC API
+
+/**
+ * Builds the arguments for a 7za command. All 7za arguments are built here, so that
+ * caller-supplied paths and archive entry names can never be read as switches or list files:
+ * - a name starting with '-' is passed after '--', which ends switch parsing
+ * - a name starting with '@' would still be read as a list file, so then all names are
+ *   written to a UTF-8 list file instead; names 7za would change there (surrounding spaces,
+ *   tabs or quotes) still follow '--', and exclusions like that are passed as -x!name
+ * - '*' and '?' would match other names (or archives), so with either wildcard matching is off
+ * - the archive path is made absolute, so it starts with neither
+ * - the output directory is made absolute too; 7za would put the archive name in place of
+ *   a '*' in it, so one with wildcards is rejected (see verifyOutputDir)
+ * Throws INVALID_PATH for values with null bytes, or with line breaks when they must go into
+ * a list file, or for names starting with '@' that a list file would change, and
+ * COMMAND_LINE_ERROR for malformed commands or switches.
+ */
+export async function buildCommandLine(command: SevenZipCommand): Promise<CommandLine> {
+    const switches = [...(command.switches ?? [])];
+    const names = command.names ?? [];
+    verifyCommand(command.command, switches);
+    const values = [command.archivePath ?? '', ...names, ...(command.excludedNames ?? [])];
+    values.forEach(verifyValue);
+    if (values.some(value => /[*?]/.test(value))) {
+        switches.push(NO_WILDCARDS);
+    }
+    if (command.outputDir !== undefined) {
+        verifyOutputDir(command.outputDir);
+        switches.push(`-o${path.resolve(command.outputDir)}`);
+    }
+
+    const positional = command.archivePath !== undefined ? [path.resolve(command.archivePath)] : [];
+    const listFiles: string[] = [];
+    try {
+        const excludedNames = command.excludedNames ?? [];
+        const listedExclusions = excludedNames.filter(name => !CHANGED_IN_LIST_FILE.test(name));
+        if (listedExclusions.length > 0) {
+            const listPath = await writeVerifiedListFile(listedExclusions);
+            listFiles.push(listPath);
+            switches.push(`-x@${listPath}`);
+        }
+        switches.push(...excludedNames.filter(name => CHANGED_IN_LIST_FILE.test(name)).map(name => `-x!${name}`));
+
+        if (command.useListFile || names.some(name => name.startsWith('@'))) {
+            // rn takes old/new name pairs, which must stay together
+            const groups = splitNames(names, command.command === 'rn' ? 2 : 1);
+            const listed = groups.filter(group => !group.some(name => CHANGED_IN_LIST_FILE.test(name))).flat();
+            const unlisted = groups.filter(group => group.some(name => CHANGED_IN_LIST_FILE.test(name))).flat();
+            verifyUnlisted(unlisted);
+
+            // Every positional argument before '--' is known to be safe, and newer 7za versions
+            // would take '@listfile' after '--' literally
+            const listPath = await writeVerifiedListFile(listed);
+            listFiles.push(listPath);
+            positional.push(`@${listPath}`);
+            if (unlisted.length > 0) {
+                positional.push('--', ...unlisted);
+            }
+        } else if (names.length > 0 || positional.length > 0) {
+            positional.unshift('--');
+            positional.push(...names);
+        }
+
+        if (listFiles.length > 0) {
+            switches.push(LIST_FILE_CHARSET);
+        }
+        return { args: [command.command, ...switches, ...positional], listFiles };
+    } catch (error) {
+        await removeListFiles({ args: [], listFiles });
+        throw error;
+    }
+}
+
+/**
+ * Removes the list files of a command line, ignoring errors.
+ */
+export async function removeListFiles(commandLine: CommandLine): Promise<void> {
+    await Promise.all(commandLine.listFiles.map(listPath => removeListFile(listPath)));
+}
+
+/**
+ * Checks that a directory can be passed to 7za with -o: 7za puts the archive name in place of
+ * '*' there (and -spd does not apply), so a directory with wildcards throws INVALID_PATH.
+ */
+export function verifyOutputDir(dir: string): void {
+    verifyValue(dir);
+    if (/[*?]/.test(dir)) {
+        throw new ArchiveError(
+            `Output directory cannot contain '*' or '?': ${dir}`,
+            ArchiveErrorCode.INVALID_PATH,
+            { path: dir }
+        );
+    }
+}
+
+//#endregion
+
+//#region INTERNAL
+
+/**
+ * Commands are lowercase letters; switches start with '-' and are more than '--'.
+ */
+function verifyCommand(command: string, switches: string[]): void {
+    const invalid = !/^[a-z]+$/.test(command)
+        ? command
+        : switches.find(value => !value.startsWith('-') || value === '--' || value.length < 2);
+    if (invalid !== undefined) {
+        throw new ArchiveError(
+            `Invalid 7za command or switch: '${invalid}'`,
+            ArchiveErrorCode.COMMAND_LINE_ERROR,
+            { command, switches }
+        );
+    }
+    switches.forEach(verifyValue);
+}
+
+/**
+ * Null bytes cannot be passed to a process (and would cut a name short).
+ */
+function verifyValue(value: string): void {
+    if (value.includes('\0')) {
+        throw new ArchiveError(
+            `Path or name contains a null byte: ${JSON.stringify(value)}`,
+            ArchiveErrorCode.INVALID_PATH,
+            { path: value }
+        );
+    }
+}
+
+/**
+ * Splits names into groups of the given size (the last one may be shorter).
+ */
+function splitNames(names: string[], size: number): string[][] {
+    const groups: string[][] = [];
+    for (let index = 0; index < names.length; index += size) {
+        groups.push(names.slice(index, index + size));
+    }
+    return groups;
+}
+
+/**
+ * Names that must follow '--' because a list file would change them cannot start with '@',
+ * which older 7za versions read as a list file even there.
+ */
+function verifyUnlisted(names: string[]): void {
+    const listLike = names.find(name => name.startsWith('@'));
+    if (listLike !== undefined) {
+        throw new ArchiveError(
+            `Name starting with '@' and with surrounding spaces, tabs or quotes cannot be passed to 7za: ${JSON.stringify(listLike)}`,
+            ArchiveErrorCode.INVALID_PATH,
+            { path: listLike }
+        );
+    }
+}
+
+/**
+ * Writes names to a list file, which holds one name per line.
+ */
+async function writeVerifiedListFile(names: string[]): Promise<string> {
+    const multiline = names.find(name => /[\r\n]/.test(name));
+    if (multiline !== undefined) {
+        throw new ArchiveError(
+            `Name with a line break cannot be passed to 7za: ${JSON.stringify(multiline)}`,
+            ArchiveErrorCode.INVALID_PATH,
+            { path: multiline }
+        );
+    }
+    return writeListFile(names);
+}
+
+//#endregion
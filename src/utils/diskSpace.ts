@@ -0,0 +1,72 @@
+// src/utils/diskSpace.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { DiskSpaceCheck } from '../types/archive.types.js';
+import { ArchiveError, ArchiveErrorCode } from '../types/errors.types.js';
+
+//#region PUBLIC API
+
+/**
+ * Throws INVALID_OPTIONS unless the margins are non-negative finite numbers.
+ */
+export function verifyDiskSpaceCheck(check: DiskSpaceCheck): void {
+    const invalid = (['marginBytes', 'marginRatio'] as const).filter((name) => {
+        const value = check[name];
+        return value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0);
+    });
+    if (invalid.length > 0) {
+        throw new ArchiveError(
+            `Disk space margins must be non-negative numbers: ${invalid.join(', ')}`,
+            ArchiveErrorCode.INVALID_OPTIONS,
+            { diskSpaceCheck: check }
+        );
+    }
+}
+
+/**
+ * Returns the bytes available to this process on the volume of a path, which need not exist yet
+ * (its nearest existing parent is queried). Returns null if free space cannot be determined.
+ */
+export async function getAvailableSpace(targetPath: string): Promise<number | null> {
+    let current = path.resolve(targetPath);
+    for (;;) {
+        try {
+            const stats = await fs.statfs(current);
+            return stats.bavail * stats.bsize;
+        } catch (error) {
+            const parent = path.dirname(current);
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || parent === current) {
+                return null;
+            }
+            current = parent;
+        }
+    }
+}
+
+/**
+ * Checks that the volume of targetPath has room for neededBytes plus the safety margin.
+ * Does nothing if the check is disabled or free space cannot be determined.
+ * Throws DISK_FULL with the shortfall in details otherwise.
+ */
+export async function ensureFreeSpace(targetPath: string, neededBytes: number, check: DiskSpaceCheck): Promise<void> {
+    if (check.enabled === false) {
+        return;
+    }
+
+    const availableBytes = await getAvailableSpace(targetPath);
+    if (availableBytes === null) {
+        return;
+    }
+
+    const requiredBytes = Math.ceil(neededBytes * (1 + (check.marginRatio ?? 0))) + (check.marginBytes ?? 0);
+    if (requiredBytes > availableBytes) {
+        const shortfallBytes = requiredBytes - availableBytes;
+        throw new ArchiveError(
+            `Not enough disk space for ${targetPath}: ${requiredBytes} bytes required, ${availableBytes} available (short by ${shortfallBytes})`,
+            ArchiveErrorCode.DISK_FULL,
+            { path: targetPath, neededBytes, requiredBytes, availableBytes, shortfallBytes }
+        );
+    }
+}
+
+//#endregion
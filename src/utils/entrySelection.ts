@@ -0,0 +1,103 @@
+// src/utils/entrySelection.ts
+import { type EntrySelector, type FileInfo } from '../types/archive.types.js';
+import { ArchiveError, ArchiveErrorCode } from '../types/errors.types.js';
+import { createGlobMatcher } from './glob.js';
+
+//#region TYPES
+
+/** Outcome of matching a selector against a listing */
+export interface EntrySelection {
+    /** Entries that meet every criterion */
+    files: FileInfo[];
+    /** Globs, regular expressions and extensions that matched no entry in the listing */
+    unmatched: string[];
+}
+
+/** A single glob, regular expression or extension */
+interface NameTest {
+    label: string;
+    matches: (filename: string) => boolean;
+}
+
+//#endregion
+
+//#region PUBLIC API
+
+/**
+ * Matches a selector against the entries of a listing.
+ * Each glob, regular expression and extension is also checked on its own,
+ * so patterns that match nothing can be reported.
+ * Throws INVALID_OPTIONS if the selector is malformed.
+ */
+export function selectEntries(files: FileInfo[], selector: EntrySelector): EntrySelection {
+    verifySelector(selector);
+
+    const groups: NameTest[][] = [
+        (selector.globs ?? []).map((glob) => ({ label: glob, matches: createGlobMatcher([glob]) })),
+        (selector.regex ?? []).map((regex) => ({ label: String(regex), matches: (filename: string) => filename.search(regex) !== -1 })),
+        (selector.extensions ?? []).map((extension) => {
+            const suffix = `.${extension.replace(/^\./, '').toLowerCase()}`;
+            return { label: extension, matches: (filename: string) => filename.toLowerCase().endsWith(suffix) };
+        }),
+    ];
+    const matchedTests = new Set<NameTest>();
+
+    const selected = files.filter((file) => {
+        // Every test runs, not just until one matches, so each test's matches are recorded
+        let matchesAll = true;
+        for (const tests of groups) {
+            let matchesGroup = tests.length === 0;
+            for (const test of tests) {
+                if (test.matches(file.filename)) {
+                    matchedTests.add(test);
+                    matchesGroup = true;
+                }
+            }
+            matchesAll &&= matchesGroup;
+        }
+
+        return matchesAll
+            && file.size >= (selector.minSize ?? 0)
+            && file.size <= (selector.maxSize ?? Infinity)
+            && (selector.minDate === undefined || (file.date !== undefined && file.date.getTime() >= selector.minDate.getTime()))
+            && (selector.maxDate === undefined || (file.date !== undefined && file.date.getTime() <= selector.maxDate.getTime()));
+    });
+
+    return {
+        files: selected,
+        unmatched: groups.flat().filter((test) => !matchedTests.has(test)).map((test) => test.label),
+    };
+}
+
+//#endregion
+
+//#region INTERNAL
+
+/**
+ * Throws INVALID_OPTIONS for empty patterns, non-RegExp values, negative sizes or invalid dates.
+ */
+function verifySelector(selector: EntrySelector): void {
+    const invalid = (reason: string): ArchiveError =>
+        new ArchiveError(`Invalid entry selector: ${reason}`, ArchiveErrorCode.INVALID_OPTIONS, { select: selector });
+
+    for (const value of [...(selector.globs ?? []), ...(selector.extensions ?? [])]) {
+        if (typeof value !== 'string' || value.replace(/^\./, '').trim() === '') {
+            throw invalid('globs and extensions must be non-empty strings');
+        }
+    }
+    if (selector.regex?.some((regex) => !(regex instanceof RegExp))) {
+        throw invalid('regex must contain RegExp objects');
+    }
+    for (const size of [selector.minSize, selector.maxSize]) {
+        if (size !== undefined && (typeof size !== 'number' || Number.isNaN(size) || size < 0)) {
+            throw invalid('sizes must be non-negative numbers');
+        }
+    }
+    for (const date of [selector.minDate, selector.maxDate]) {
+        if (date !== undefined && (!(date instanceof Date) || Number.isNaN(date.getTime()))) {
+            throw invalid('dates must be valid Date objects');
+        }
+    }
+}
+
+//#endregion
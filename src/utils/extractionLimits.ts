@@ -0,0 +1,140 @@
+// src/utils/extractionLimits.ts
+import type { ExtractionLimits, FileInfo } from '../types/archive.types.js';
+import { ArchiveError, ArchiveErrorCode, ExtractionLimitError } from '../types/errors.types.js';
+
+//#region TYPES
+
+/** Files that were compressed together, and the compressed size they share */
+interface CompressionUnit {
+    size: number;
+    packedSize: number;
+}
+
+//#endregion
+
+//#region PUBLIC API
+
+/**
+ * Throws INVALID_OPTIONS unless every limit is a non-negative finite number.
+ */
+export function verifyExtractionLimits(limits: ExtractionLimits): void {
+    const invalid = Object.entries(limits).filter(
+        ([, value]) => value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)
+    );
+    if (invalid.length > 0) {
+        throw new ArchiveError(
+            `Extraction limits must be non-negative numbers: ${invalid.map(([name]) => name).join(', ')}`,
+            ArchiveErrorCode.INVALID_OPTIONS,
+            { limits }
+        );
+    }
+}
+
+/**
+ * Checks the files about to be extracted against the limits, using the sizes in the listing.
+ * In a solid 7z block only the first file reports a compressed size (that of the whole block),
+ * so files listed after it without one are rated together with it. Files in neither case
+ * (e.g., only empty files) have no ratio. A compressed size of 0 for a non-empty file counts as
+ * an infinite ratio.
+ * Archives compressed as one stream (gzip, tar.gz) are rated as a whole against streamSize, their
+ * size on disk: the whole stream is decompressed for any of its files, and the sizes 7za lists
+ * for the files inside a tar.gz are those of the tar, not compressed ones. There is no per-entry
+ * ratio for these archives, so maxEntryRatio does not apply.
+ * Throws ExtractionLimitError for the first limit exceeded.
+ */
+export function checkExtractionLimits(
+    listing: FileInfo[],
+    files: FileInfo[],
+    limits: ExtractionLimits,
+    archivePath: string,
+    streamSize?: number
+): void {
+    // Unset (or 0) limits are off; ratios are reported rounded
+    const check = (limit: keyof ExtractionLimits, value: number, filename?: string): void => {
+        const max = limits[limit];
+        if (max && value > max) {
+            const reported = limit === 'maxEntryRatio' || limit === 'maxTotalRatio' ? roundRatio(value) : value;
+            throw new ExtractionLimitError(archivePath, limit, reported, max, filename);
+        }
+    };
+
+    check('maxEntries', files.length);
+
+    const largest = files.reduce<FileInfo | undefined>((max, file) => (!max || file.size > max.size ? file : max), undefined);
+    if (largest) {
+        check('maxEntrySize', largest.size, largest.filename);
+    }
+
+    const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+    check('maxTotalSize', totalSize);
+
+    if (!limits.maxEntryRatio && !limits.maxTotalRatio) {
+        return;
+    }
+
+    if (streamSize !== undefined) {
+        check('maxTotalRatio', compressionRatio(listing.reduce((sum, file) => sum + file.size, 0), streamSize));
+        return;
+    }
+
+    const units = groupCompressionUnits(listing);
+    const rated = new Set<CompressionUnit>();
+    for (const file of files) {
+        const unit = units.get(file);
+        if (!unit) {
+            continue;
+        }
+        rated.add(unit);
+        check('maxEntryRatio', compressionRatio(unit.size, unit.packedSize), file.filename);
+    }
+
+    // Whole units are counted, as a solid block is decompressed in full even for one of its files
+    const ratedUnits = [...rated];
+    const totalRatio = compressionRatio(
+        ratedUnits.reduce((sum, unit) => sum + unit.size, 0),
+        ratedUnits.reduce((sum, unit) => sum + unit.packedSize, 0)
+    );
+    check('maxTotalRatio', totalRatio);
+}
+
+//#endregion
+
+//#region INTERNAL
+
+/**
+ * Maps each file to its compression unit: files with a compressed size start a unit,
+ * and files listed after one without a compressed size join it.
+ */
+function groupCompressionUnits(listing: FileInfo[]): Map<FileInfo, CompressionUnit> {
+    const units = new Map<FileInfo, CompressionUnit>();
+    let current: CompressionUnit | undefined;
+    for (const file of listing) {
+        if (file.compressedSize !== undefined && !Number.isNaN(file.compressedSize)) {
+            current = { size: 0, packedSize: file.compressedSize };
+        }
+        if (current) {
+            current.size += file.size;
+            units.set(file, current);
+        }
+    }
+    return units;
+}
+
+/**
+ * Uncompressed / compressed size; a non-empty file stored in no bytes at all rates Infinity.
+ */
+function compressionRatio(size: number, packedSize: number): number {
+    if (packedSize > 0) {
+        return size / packedSize;
+    }
+    return size > 0 ? Infinity : 0;
+}
+
+/**
+ * Rounds a ratio to two decimals for error details.
+ */
+function roundRatio(ratio: number): number {
+    return Math.round(ratio * 100) / 100;
+}
+
+//#endregion
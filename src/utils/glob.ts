@@ -0,0 +1,71 @@
+// src/utils/glob.ts
+
+//#region PUBLIC API
+
+/**
+ * Converts a glob pattern to a regular expression matching a whole '/'-separated path.
+ * Supports '*' (within one path segment), '**' (any number of segments), '?' and '[...]' classes
+ * ('[!...]' negates). Matching ignores case on Windows.
+ */
+export function globToRegExp(pattern: string, ignoreCase: boolean = process.platform === 'win32'): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+
+        if (char === '*') {
+            if (pattern[i + 1] === '*') {
+                i++;
+                // '**/' also matches zero segments, so '**/x' matches 'x'
+                if (pattern[i + 1] === '/') {
+                    i++;
+                    source += '(?:.*/)?';
+                } else {
+                    source += '.*';
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[' && pattern.indexOf(']', i + 2) !== -1) {
+            const end = pattern.indexOf(']', i + 2);
+            const members = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+            source += members.startsWith('!') ? `[^${members.slice(1)}]` : `[${members}]`;
+            i = end;
+        } else {
+            source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`, ignoreCase ? 'i' : '');
+}
+
+/**
+ * Compiles glob patterns into a function that tests whether a path matches any of them.
+ * Patterns without a '/' match the last path segment at any depth (e.g., '*.tmp', 'Thumbs.db');
+ * patterns with a '/' match the whole path (e.g., 'src/cache/**', 'docs/*.md').
+ */
+export function createGlobMatcher(patterns: string[]): (entryPath: string) => boolean {
+    const compiled = patterns.map((pattern) => {
+        const normalized = normalizeGlobPath(pattern);
+        return { matchesPath: normalized.includes('/'), regex: globToRegExp(normalized) };
+    });
+
+    return (entryPath: string): boolean => {
+        const normalized = normalizeGlobPath(entryPath);
+        const name = normalized.slice(normalized.lastIndexOf('/') + 1);
+        return compiled.some(({ matchesPath, regex }) => regex.test(matchesPath ? normalized : name));
+    };
+}
+
+//#endregion
+
+//#region INTERNAL
+
+/**
+ * Uses '/' separators and drops a leading './' or '/'.
+ */
+function normalizeGlobPath(value: string): string {
+    return value.replace(/\\/g, '/').replace(/^\.?\//, '');
+}
+
+//#endregion
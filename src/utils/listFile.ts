@@ -0,0 +1,28 @@
+// src/utils/listFile.ts
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+//#region PUBLIC API
+
+/**
+ * Writes names to a UTF-8 list file for 7za's @listfile syntax (read with -scsUTF-8).
+ * Returns the file path; remove it with removeListFile when 7za is done.
+ */
+export async function writeListFile(names: string[]): Promise<string> {
+    const listPath = path.join(os.tmpdir(), `7za-list-${randomBytes(4).toString('hex')}.txt`);
+    await fs.writeFile(listPath, names.join('\n') + '\n', 'utf8');
+    return listPath;
+}
+
+/**
+ * Removes a list file, ignoring errors.
+ */
+export async function removeListFile(listPath: string | undefined): Promise<void> {
+    if (listPath) {
+        await fs.rm(listPath, { force: true }).catch(() => {});
+    }
+}
+
+//#endregion
@@ -1,7 +1,30 @@
 // src/utils/pathValidation.ts
 import path from 'path';
-import type { FileInfo } from '../types/archive.types.js';
-import { PathTraversalError } from '../types/errors.types.js';
+import {
+    EntryKind,
+    FilenameIssue,
+    type FileInfo,
+    type FilenameCheckOptions,
+    type FilenameProblem,
+    type FilenameReport,
+} from '../types/archive.types.js';
+import { ArchiveError, ArchiveErrorCode, PathTraversalError } from '../types/errors.types.js';
+
+//#region CONSTANTS
+
+/** Windows device names, reserved with any extension (e.g., 'nul.txt') */
+const RESERVED_NAME_PATTERN = /^(CON|PRN|AUX|NUL|COM[1-9\u00b9\u00b2\u00b3]|LPT[1-9\u00b9\u00b2\u00b3])$/i;
+
+/** Characters Windows does not allow in names (null bytes count as traversal) */
+const ILLEGAL_CHARACTER_PATTERN = /[<>:"|?*\x01-\x1f]/;
+
+/** Windows MAX_PATH */
+const DEFAULT_MAX_PATH_LENGTH = 260;
+
+/** Longest single name NTFS, APFS and ext4 allow */
+const MAX_NAME_LENGTH = 255;
+
+//#endregion
 
 //#region PUBLIC API
 
@@ -32,13 +55,90 @@ export function validateEntryPath(entryPath: string, archivePath: string): void
 /**
  * Validates all file entries in an archive for path traversal attacks.
  * Throws PathTraversalError on first malicious path found.
+ * With options, also checks that the names are valid on Windows, macOS and Linux, and returns
+ * every problem found (traversal included) in a report instead of throwing.
  */
-export function validateAllEntries(entries: FileInfo[], archivePath: string): void {
+export function validateAllEntries(entries: FileInfo[], archivePath: string): void;
+export function validateAllEntries(entries: FileInfo[], archivePath: string, options: FilenameCheckOptions): FilenameReport;
+export function validateAllEntries(
+    entries: FileInfo[],
+    archivePath: string,
+    options?: FilenameCheckOptions
+): FilenameReport | void {
+    if (options) {
+        return checkFilenames(entries, options);
+    }
     for (const entry of entries) {
         validateEntryPath(entry.filename, archivePath);
     }
 }
 
+/**
+ * Validates the target of a link entry. Hard link targets are archive paths and checked like entry
+ * paths. Symbolic link targets are resolved from the link's folder: they must be relative, may only
+ * go up ('..') before naming anything (after a name, '..' could climb out through another link),
+ * and must not go above the extraction root.
+ * Throws PathTraversalError if the target could point outside the extraction root.
+ */
+export function validateLinkTarget(entryPath: string, linkTarget: string, kind: EntryKind, archivePath: string): void {
+    if (kind === EntryKind.HARDLINK) {
+        if (!isSafePath(linkTarget)) {
+            throw new PathTraversalError(entryPath, archivePath, linkTarget);
+        }
+        return;
+    }
+
+    const target = linkTarget.replace(/\\/g, '/');
+    const names = target.split('/').filter(name => name !== '' && name !== '.');
+    const firstName = names.findIndex(name => name !== '..');
+    const levelsUp = firstName === -1 ? names.length : firstName;
+    const linkDepth = normalizePath(entryPath).split('/').filter(name => name !== '' && name !== '.').length - 1;
+
+    if (
+        target.startsWith('/')
+        || /^[a-zA-Z]:/.test(target)
+        || target.includes('\0')
+        || (firstName !== -1 && names.slice(firstName).includes('..'))
+        || levelsUp > linkDepth
+    ) {
+        throw new PathTraversalError(entryPath, archivePath, linkTarget);
+    }
+}
+
+/**
+ * Validates the link entries among entries: every link target (see validateLinkTarget), and that
+ * no entry lies below a symbolic link, where it would be written through the link. Paths are
+ * compared ignoring case and Unicode normalization, as on Windows and macOS.
+ * Throws PathTraversalError on the first problem; a link whose target is unknown fails too.
+ */
+export function validateLinkEntries(entries: FileInfo[], archivePath: string): void {
+    const pathKey = (entryPath: string): string => normalizePath(entryPath).normalize('NFC').toLowerCase();
+    const links = entries.filter(
+        (entry): entry is FileInfo & { kind: EntryKind } => entry.kind === EntryKind.SYMLINK || entry.kind === EntryKind.HARDLINK
+    );
+    const symlinks = new Set(
+        links.filter(entry => entry.kind === EntryKind.SYMLINK).map(entry => pathKey(entry.filename).replace(/\/+$/, ''))
+    );
+
+    if (symlinks.size > 0) {
+        for (const entry of entries) {
+            const names = pathKey(entry.filename).split('/');
+            for (let count = 1; count < names.length; count++) {
+                if (symlinks.has(names.slice(0, count).join('/'))) {
+                    throw new PathTraversalError(entry.filename, archivePath);
+                }
+            }
+        }
+    }
+
+    for (const link of links) {
+        if (link.linkTarget === undefined) {
+            throw new PathTraversalError(link.filename, archivePath, '(unknown)');
+        }
+        validateLinkTarget(link.filename, link.linkTarget, link.kind, archivePath);
+    }
+}
+
 /**
  * Normalizes a path for cross-platform consistency.
  * Converts backslashes to forward slashes and removes redundant separators.
@@ -66,18 +166,26 @@ export function isSafePath(entryPath: string): boolean {
 
 /**
  * Constructs the full output path for an extracted file.
- * Validates the path before returning.
+ * Validates the path before returning, and for a link entry its target (see validateLinkTarget).
  */
-export function resolveExtractPath(basePath: string, relativePath: string, archivePath: string): string {
+export function resolveExtractPath(
+    basePath: string,
+    relativePath: string,
+    archivePath: string,
+    link?: Pick<FileInfo, 'kind' | 'linkTarget'>
+): string {
     // Validate first
     validateEntryPath(relativePath, archivePath);
+    if ((link?.kind === EntryKind.SYMLINK || link?.kind === EntryKind.HARDLINK) && link.linkTarget !== undefined) {
+        validateLinkTarget(relativePath, link.linkTarget, link.kind, archivePath);
+    }
 
     // Resolve the full path
     const fullPath = path.resolve(basePath, relativePath);
 
-    // Double-check the resolved path is within basePath
-    const normalizedBase = path.resolve(basePath);
-    if (!fullPath.startsWith(normalizedBase)) {
+    // Double-check the resolved path is within basePath (a sibling like '/out-evil' shares the prefix '/out')
+    const fromBase = path.relative(path.resolve(basePath), fullPath);
+    if (fromBase === '..' || fromBase.startsWith(`..${path.sep}`) || path.isAbsolute(fromBase)) {
         throw new PathTraversalError(relativePath, archivePath);
     }
 
@@ -85,3 +193,100 @@ export function resolveExtractPath(basePath: string, relativePath: string, archi
 }
 
 //#endregion
+
+//#region INTERNAL
+
+/**
+ * Collects the cross-platform problems of every entry (see FilenameIssue).
+ */
+function checkFilenames(entries: FileInfo[], options: FilenameCheckOptions): FilenameReport {
+    const maxPathLength = options.maxPathLength ?? DEFAULT_MAX_PATH_LENGTH;
+    if (!Number.isInteger(maxPathLength) || maxPathLength <= 0) {
+        throw new ArchiveError(
+            `maxPathLength must be a positive integer: ${maxPathLength}`,
+            ArchiveErrorCode.INVALID_OPTIONS,
+            { maxPathLength }
+        );
+    }
+
+    const checks = new Set(options.checks ?? Object.values(FilenameIssue));
+    const problems: FilenameProblem[] = [];
+    const report = (issue: FilenameIssue, filename: string, message: string, collidesWith?: string[]): void => {
+        if (issue === FilenameIssue.TRAVERSAL || checks.has(issue)) {
+            problems.push(collidesWith ? { issue, filename, message, collidesWith } : { issue, filename, message });
+        }
+    };
+
+    const safeNames: string[] = [];
+    for (const { filename } of entries) {
+        if (!isSafePath(filename)) {
+            report(FilenameIssue.TRAVERSAL, filename, 'Path is absolute or leaves the target directory');
+            continue;
+        }
+        safeNames.push(filename);
+
+        const normalized = normalizePath(filename);
+        const names = normalized.split('/').filter(name => name !== '' && name !== '.');
+
+        const reserved = names.find(name => RESERVED_NAME_PATTERN.test(name.replace(/\..*$/, '').trimEnd()));
+        if (reserved !== undefined) {
+            report(FilenameIssue.RESERVED_NAME, filename, `'${reserved}' is a reserved name on Windows`);
+        }
+
+        const trailing = names.find(name => /[. ]$/.test(name));
+        if (trailing !== undefined) {
+            report(FilenameIssue.TRAILING_DOT_OR_SPACE, filename, `'${trailing}' ends with a dot or space, which Windows removes`);
+        }
+
+        const illegal = normalized.match(ILLEGAL_CHARACTER_PATTERN)?.[0];
+        if (illegal !== undefined) {
+            const character = illegal < ' ' ? `control character U+${illegal.charCodeAt(0).toString(16).padStart(4, '0')}` : `'${illegal}'`;
+            report(FilenameIssue.ILLEGAL_CHARACTER, filename, `Contains ${character}, which Windows does not allow`);
+        }
+
+        const pathLength = options.targetPath ? path.resolve(options.targetPath, filename).length : normalized.length;
+        const longName = names.find(name => name.length > MAX_NAME_LENGTH);
+        if (pathLength > maxPathLength) {
+            report(FilenameIssue.PATH_TOO_LONG, filename, `Path is ${pathLength} characters long (limit ${maxPathLength})`);
+        } else if (longName !== undefined) {
+            report(FilenameIssue.PATH_TOO_LONG, filename, `A name is ${longName.length} characters long (limit ${MAX_NAME_LENGTH})`);
+        }
+    }
+
+    // Paths equal once normalized to NFC differ only in normalization; otherwise, if equal ignoring case, in case
+    const nfcGroups = groupDistinct(safeNames, name => normalizePath(name).normalize('NFC'));
+    const caseGroups = groupDistinct(safeNames, name => normalizePath(name).normalize('NFC').toLowerCase());
+    for (const filename of new Set(safeNames)) {
+        const nfc = normalizePath(filename).normalize('NFC');
+        const unicodeOthers = (nfcGroups.get(nfc) ?? []).filter(other => other !== filename);
+        const caseOthers = (caseGroups.get(nfc.toLowerCase()) ?? []).filter(other => normalizePath(other).normalize('NFC') !== nfc);
+        if (unicodeOthers.length > 0) {
+            report(FilenameIssue.UNICODE_COLLISION, filename, `Differs only in Unicode normalization from ${unicodeOthers.join(', ')}`, unicodeOthers);
+        }
+        if (caseOthers.length > 0) {
+            report(FilenameIssue.CASE_COLLISION, filename, `Differs only in case from ${caseOthers.join(', ')}`, caseOthers);
+        }
+    }
+
+    const order = new Map(entries.map((entry, index) => [entry.filename, index]));
+    problems.sort((a, b) => (order.get(a.filename) ?? 0) - (order.get(b.filename) ?? 0));
+    return { valid: problems.length === 0, problems };
+}
+
+/**
+ * Groups distinct names by key.
+ */
+function groupDistinct(names: string[], key: (name: string) => string): Map<string, string[]> {
+    const groups = new Map<string, string[]>();
+    for (const name of new Set(names)) {
+        const group = groups.get(key(name));
+        if (group) {
+            group.push(name);
+        } else {
+            groups.set(key(name), [name]);
+        }
+    }
+    return groups;
+}
+
+//#endregion
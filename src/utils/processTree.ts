@@ -0,0 +1,68 @@
+// src/utils/processTree.ts
+import { execFile, type ChildProcess } from 'child_process';
+
+//#region PUBLIC API
+
+/**
+ * Force-kills a process and all of its descendants.
+ * SIGKILL is used because 7za only checks for SIGTERM between progress updates,
+ * so a process blocked on I/O (e.g., a dead network share) would never exit.
+ * Windows uses taskkill /T; elsewhere the descendants are looked up with ps first,
+ * falling back to killing only the process itself.
+ */
+export function killProcessTree(proc: ChildProcess): void {
+    const pid = proc.pid;
+    if (pid === undefined || proc.exitCode !== null || proc.signalCode !== null) {
+        return;
+    }
+
+    if (process.platform === 'win32') {
+        execFile('taskkill', ['/pid', String(pid), '/T', '/F'], { windowsHide: true }, (error) => {
+            if (error) {
+                proc.kill();
+            }
+        });
+        return;
+    }
+
+    execFile('ps', ['-A', '-o', 'pid=,ppid='], (error, stdout) => {
+        const descendants = error ? [] : findDescendants(pid, stdout);
+        proc.kill('SIGKILL');
+        for (const child of descendants) {
+            try {
+                process.kill(child, 'SIGKILL');
+            } catch {
+                // Already exited
+            }
+        }
+    });
+}
+
+//#endregion
+
+//#region INTERNAL
+
+/**
+ * Finds all descendants of a process in `ps -o pid=,ppid=` output.
+ */
+function findDescendants(rootPid: number, psOutput: string): number[] {
+    const children = new Map<number, number[]>();
+    for (const line of psOutput.split('\n')) {
+        const [pid, ppid] = line.trim().split(/\s+/).map(Number);
+        if (Number.isInteger(pid) && Number.isInteger(ppid)) {
+            children.set(ppid, [...(children.get(ppid) ?? []), pid]);
+        }
+    }
+
+    const descendants: number[] = [];
+    const pending = [rootPid];
+    for (let pid = pending.pop(); pid !== undefined; pid = pending.pop()) {
+        for (const child of children.get(pid) ?? []) {
+            descendants.push(child);
+            pending.push(child);
+        }
+    }
+    return descendants;
+}
+
+//#endregion
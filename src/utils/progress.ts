@@ -0,0 +1,206 @@
+// src/utils/progress.ts
+import {
+    type ProgressCallback,
+    type ProgressEvent,
+    type ProgressEventCallback,
+    ProgressPhase,
+} from '../types/archive.types.js';
+
+//#region TYPES
+
+/** Values parsed from one 7za -bsp1 progress update */
+export interface ProgressUpdate {
+    percent: number;
+    /** Files processed so far (omitted by 7za until the first file completes) */
+    files?: number;
+    /** Entry being processed */
+    entry?: string;
+}
+
+/** Known totals for a phase, used for byte estimates and ETA */
+export interface ProgressTotals {
+    bytesTotal?: number;
+    filesTotal?: number;
+}
+
+/** Turns 7za progress output into legacy callbacks and structured progress events */
+export interface ProgressTracker {
+    /**
+     * Starts a phase. Percent, throughput and ETA are measured from this point.
+     * formatMessage builds the legacy (progress, message) text for 7za progress updates.
+     */
+    setPhase(phase: ProgressPhase, totals?: ProgressTotals, formatMessage?: (percent: number) => string): void;
+    /** Feeds raw 7za stdout (-bsp1 progress, possibly mixed with other output) */
+    push(chunk: string): void;
+    /** Sets the totals of the current phase once they are known (e.g., from 7za's scan summary) */
+    setTotals(totals: ProgressTotals): void;
+    /** Counts an entry for phases without 7za progress output (e.g., listing) */
+    countEntry(entry: string): void;
+    /** Reports completion of the current phase with the final legacy message */
+    complete(message: string): void;
+    /** Most recent progress state */
+    readonly current: ProgressEvent;
+}
+
+//#endregion
+
+//#region CONSTANTS
+
+/** '45% 12 + folder/file.txt' - percent, optional file count, optional operation mark and entry */
+const PROGRESS_UPDATE = /^\s*(\d+)%(?:\s+(\d+))?(?:\s+\S\s+(.+?))?\s*$/;
+
+/** 7za's summary of the files it is about to add: '3 folders, 2 files, 4 bytes (1 KiB)' */
+const SCAN_SUMMARY = /Scanning the drive:[^]*?(\d+) files?, (\d+) bytes/;
+
+/** Output that follows the scan summary; without a summary by then, there is none to wait for */
+const SCAN_END = /\n(?:Creating|Updating) archive/;
+
+/** Minimum interval between events within a phase (phase start and completion are always sent) */
+const EVENT_INTERVAL_MS = 100;
+
+//#endregion
+
+//#region PUBLIC API
+
+/**
+ * Creates a tracker that reports progress to both the legacy and the structured callback.
+ * The legacy callback is only called when its message changes.
+ */
+export function createProgressTracker(
+    onProgress?: ProgressCallback,
+    onProgressEvent?: ProgressEventCallback
+): ProgressTracker {
+    let phaseStart = Date.now();
+    let lastEventTime = 0;
+    let lastMessage = '';
+    let lastEventKey = '';
+    let totals: ProgressTotals = {};
+    let format: ((percent: number) => string) | undefined;
+    let current: ProgressEvent = { phase: ProgressPhase.SCANNING, percent: null, elapsedSeconds: 0 };
+
+    const emit = (update: Partial<ProgressEvent>, force: boolean = false): void => {
+        const now = Date.now();
+        const elapsedSeconds = (now - phaseStart) / 1000;
+        const next: ProgressEvent = { ...current, ...update, ...totals, elapsedSeconds };
+        const percent = next.percent;
+
+        if (percent !== null) {
+            if (totals.bytesTotal !== undefined) {
+                next.bytesProcessed = Math.round(totals.bytesTotal * percent / 100);
+                next.bytesPerSecond = elapsedSeconds > 0 ? next.bytesProcessed / elapsedSeconds : undefined;
+            }
+            next.etaSeconds = percent >= 100
+                ? 0
+                : percent > 0 ? elapsedSeconds * (100 - percent) / percent : undefined;
+        }
+        current = next;
+
+        // Skip events that would only differ by elapsed time, and throttle the rest
+        const key = `${next.phase}|${percent}|${next.filesProcessed}|${next.currentEntry}`;
+        if (key !== lastEventKey && (force || now - lastEventTime >= EVENT_INTERVAL_MS)) {
+            lastEventKey = key;
+            lastEventTime = now;
+            onProgressEvent?.(next);
+        }
+    };
+
+    const report = (update: ProgressUpdate): void => {
+        if (format) {
+            const message = format(update.percent);
+            if (message !== lastMessage) {
+                lastMessage = message;
+                onProgress?.(update.percent, message);
+            }
+        }
+
+        emit({
+            percent: update.percent,
+            filesProcessed: update.files ?? current.filesProcessed,
+            currentEntry: update.entry ?? current.currentEntry,
+        });
+    };
+
+    return {
+        setPhase(phase: ProgressPhase, phaseTotals: ProgressTotals = {}, formatMessage?: (percent: number) => string): void {
+            phaseStart = Date.now();
+            totals = phaseTotals;
+            format = formatMessage;
+            current = { phase, percent: null, elapsedSeconds: 0 };
+            emit({}, true);
+        },
+
+        push(chunk: string): void {
+            const update = parseProgressOutput(chunk);
+            if (update) {
+                report(update);
+            }
+        },
+
+        setTotals(phaseTotals: ProgressTotals): void {
+            totals = phaseTotals;
+        },
+
+        countEntry(entry: string): void {
+            emit({ filesProcessed: (current.filesProcessed ?? 0) + 1, currentEntry: entry });
+        },
+
+        complete(message: string): void {
+            onProgress?.(100, message);
+            emit({
+                percent: 100,
+                filesProcessed: totals.filesTotal ?? current.filesProcessed,
+            }, true);
+        },
+
+        get current(): ProgressEvent {
+            return current;
+        },
+    };
+}
+
+/**
+ * Parses the latest progress update from a chunk of 7za -bsp1 output.
+ * Updates overwrite each other with backspaces, so the last complete one wins.
+ * Returns null if the chunk contains no progress update.
+ */
+export function parseProgressOutput(chunk: string): ProgressUpdate | null {
+    const segments = chunk.split(/[\b\r\n]+/);
+    for (let i = segments.length - 1; i >= 0; i--) {
+        const match = segments[i].match(PROGRESS_UPDATE);
+        if (match) {
+            return {
+                percent: parseInt(match[1], 10),
+                files: match[2] !== undefined ? parseInt(match[2], 10) : undefined,
+                entry: match[3],
+            };
+        }
+    }
+    return null;
+}
+
+/**
+ * Creates a reader that picks the totals out of 7za's scan summary, which compress and update
+ * print before adding anything (unless stdout output is off with -bso0).
+ * Feed it raw stdout; it returns the totals once, and null for every other chunk.
+ */
+export function createScanSummaryReader(): (chunk: string) => Required<ProgressTotals> | null {
+    let pending: string | null = '';
+    return (chunk) => {
+        if (pending === null) {
+            return null;
+        }
+        pending += chunk;
+
+        const match = pending.match(SCAN_SUMMARY);
+        if (match) {
+            pending = null;
+            return { filesTotal: parseInt(match[1], 10), bytesTotal: parseInt(match[2], 10) };
+        }
+        if (SCAN_END.test(pending)) {
+            pending = null;
+        }
+        return null;
+    };
+}
+
+//#endregion
@@ -1,7 +1,7 @@
 // src/utils/sltParser.ts
 import readline from 'readline';
 import type { Readable } from 'stream';
-import type { FileInfo } from '../types/archive.types.js';
+import { EntryKind, TimeZonePolicy, type ArchiveInfo, type FileInfo, type ListOptions } from '../types/archive.types.js';
 
 //#region TYPES
 
@@ -14,8 +14,59 @@ interface SltFileEntry {
     encrypted?: string;
     crc?: string;
     attributes?: string;
+    folder?: string;
+    symbolicLink?: string;
+    hardLink?: string;
+    mode?: string;
+    method?: string;
+    created?: string;
+    accessed?: string;
+    hostOS?: string;
+    comment?: string;
+    block?: string;
 }
 
+/** Parser options */
+export interface SltParseOptions extends Pick<ListOptions, 'detailed'> {
+    /** Time zone 7za listed dates in (default: LOCAL) */
+    timeZone?: TimeZonePolicy;
+    /** Called with the archive-level metadata once the whole output has been read */
+    onArchiveInfo?: (info: ArchiveInfo) => void;
+}
+
+/** Line-by-line -slt parser state */
+interface SltLineParser {
+    /** Feeds one line of -slt output */
+    push(line: string): void;
+    /** Flushes the last entry if output didn't end with an empty line */
+    end(): void;
+}
+
+//#endregion
+
+//#region CONSTANTS
+
+/** Marks the start of the archive header block(s) */
+const HEADER_MARKER = '--';
+
+/** Marks the end of the archive header and the start of file entries */
+const ENTRIES_MARKER = '----------';
+
+/** Within the header, starts the description of an inner item (e.g., the archive joined from volumes) */
+const HEADER_ITEM_MARKER = '----';
+
+/** 7za's password prompt, printed to stdout without a line break before the next output */
+const PASSWORD_PROMPT = /^Enter password[^:]*:/;
+
+/** Unix file type and permissions in 7za attributes, for a symbolic link (e.g., '_ lrwxrwxrwx') */
+const SYMLINK_ATTRIBUTES = /(^|\s)l[-rwxsStT]{9}$/;
+
+/** Unix permissions at the end of 7za attributes or a tar mode, after an optional file type character */
+const UNIX_PERMISSIONS = /(?:^|\s)\S?([-r][-w][-xsS][-r][-w][-xsS][-r][-w][-xtT])$/;
+
+/** 7za date and time, with a fraction of a second where the format stores one (e.g., '2024-01-15 10:30:00.1234567') */
+const DATE_TIME = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})(?:\.(\d+))?$/;
+
 //#endregion
 
 //#region PUBLIC API
@@ -26,6 +77,11 @@ interface SltFileEntry {
  *
  * -slt output format:
  * ```
+ * --
+ * Path = archive.zip
+ * Type = zip
+ *
+ * ----------
  * Path = folder/file.txt
  * Size = 12345
  * Packed Size = 9876
@@ -35,9 +91,23 @@ interface SltFileEntry {
  * Encrypted = +
  * ```
  */
-export async function parseSltOutput(stdout: Readable): Promise<FileInfo[]> {
+export async function parseSltOutput(stdout: Readable, options?: SltParseOptions): Promise<FileInfo[]> {
     const files: FileInfo[] = [];
-    let currentEntry: SltFileEntry = {};
+
+    for await (const file of parseSltEntries(stdout, options)) {
+        files.push(file);
+    }
+
+    return files;
+}
+
+/**
+ * Parses 7za -slt output stream, yielding each entry as soon as its block is complete.
+ * The stream is only read as fast as entries are consumed, so memory stays bounded.
+ */
+export async function* parseSltEntries(stdout: Readable, options?: SltParseOptions): AsyncGenerator<FileInfo, void, undefined> {
+    const pending: FileInfo[] = [];
+    const parser = createLineParser(file => pending.push(file), options);
 
     const rl = readline.createInterface({
         input: stdout,
@@ -45,121 +115,66 @@ export async function parseSltOutput(stdout: Readable): Promise<FileInfo[]> {
     });
 
     for await (const line of rl) {
-        const trimmed = line.trim();
-
-        // Empty line indicates end of current file entry
-        if (trimmed === '') {
-            const fileInfo = convertToFileInfo(currentEntry);
-            if (fileInfo) {
-                files.push(fileInfo);
-            }
-            currentEntry = {};
-            continue;
-        }
-
-        // Parse key = value format
-        const separatorIndex = trimmed.indexOf(' = ');
-        if (separatorIndex === -1) continue;
-
-        const key = trimmed.substring(0, separatorIndex);
-        const value = trimmed.substring(separatorIndex + 3);
-
-        switch (key) {
-            case 'Path':
-                currentEntry.path = value;
-                break;
-            case 'Size':
-                currentEntry.size = parseInt(value, 10);
-                break;
-            case 'Packed Size':
-                currentEntry.packedSize = parseInt(value, 10);
-                break;
-            case 'Modified':
-                currentEntry.modified = value;
-                break;
-            case 'Encrypted':
-                currentEntry.encrypted = value;
-                break;
-            case 'CRC':
-                currentEntry.crc = value;
-                break;
-            case 'Attributes':
-                currentEntry.attributes = value;
-                break;
-        }
+        parser.push(line);
+        yield* pending.splice(0);
     }
 
     // Don't forget the last entry if stream doesn't end with empty line
-    const lastFileInfo = convertToFileInfo(currentEntry);
-    if (lastFileInfo) {
-        files.push(lastFileInfo);
-    }
-
-    return files;
+    parser.end();
+    yield* pending.splice(0);
 }
 
 /**
  * Synchronous parsing of -slt output from a string buffer.
  * Use for smaller archives or when stream parsing is not needed.
  */
-export function parseSltString(output: string): FileInfo[] {
+export function parseSltString(output: string, options?: SltParseOptions): FileInfo[] {
     const files: FileInfo[] = [];
-    let currentEntry: SltFileEntry = {};
+    const parser = createLineParser(file => files.push(file), options);
 
-    const lines = output.split(/\r?\n/);
+    for (const line of output.split(/\r?\n/)) {
+        parser.push(line);
+    }
 
-    for (const line of lines) {
-        const trimmed = line.trim();
+    // Don't forget the last entry
+    parser.end();
 
-        // Empty line indicates end of current file entry
-        if (trimmed === '') {
-            const fileInfo = convertToFileInfo(currentEntry);
-            if (fileInfo) {
-                files.push(fileInfo);
-            }
-            currentEntry = {};
-            continue;
-        }
+    return files;
+}
 
-        // Parse key = value format
-        const separatorIndex = trimmed.indexOf(' = ');
-        if (separatorIndex === -1) continue;
-
-        const key = trimmed.substring(0, separatorIndex);
-        const value = trimmed.substring(separatorIndex + 3);
-
-        switch (key) {
-            case 'Path':
-                currentEntry.path = value;
-                break;
-            case 'Size':
-                currentEntry.size = parseInt(value, 10);
-                break;
-            case 'Packed Size':
-                currentEntry.packedSize = parseInt(value, 10);
-                break;
-            case 'Modified':
-                currentEntry.modified = value;
-                break;
-            case 'Encrypted':
-                currentEntry.encrypted = value;
-                break;
-            case 'CRC':
-                currentEntry.crc = value;
-                break;
-            case 'Attributes':
-                currentEntry.attributes = value;
-                break;
-        }
+/**
+ * Parses the archive-level metadata from the -slt header, with the total size of the entries.
+ * Header blocks of nested archives (e.g., volumes and the archive joined from them) are merged,
+ * the innermost block winning. Returns undefined if the output has no header.
+ */
+export function parseSltArchiveInfo(output: string): ArchiveInfo | undefined {
+    let info: ArchiveInfo | undefined;
+    const parser = createLineParser(() => undefined, { onArchiveInfo: (parsed) => { info = parsed; } });
+
+    for (const line of output.split(/\r?\n/)) {
+        parser.push(line);
     }
+    parser.end();
 
-    // Don't forget the last entry
-    const lastFileInfo = convertToFileInfo(currentEntry);
-    if (lastFileInfo) {
-        files.push(lastFileInfo);
+    return info;
+}
+
+/**
+ * Returns the archive 'Type' reported in the -slt header (e.g., "zip", "7z", "Rar5").
+ * For nested archives the innermost type is returned.
+ */
+export function parseSltArchiveType(output: string): string | undefined {
+    let type: string | undefined;
+
+    for (const line of output.split(/\r?\n/)) {
+        const trimmed = line.replace(PASSWORD_PROMPT, '').trim();
+        if (trimmed === ENTRIES_MARKER) break;
+        if (trimmed.startsWith('Type = ')) {
+            type = trimmed.substring('Type = '.length);
+        }
     }
 
-    return files;
+    return type;
 }
 
 /**
@@ -180,43 +195,264 @@ export function findEncryptedFile(files: FileInfo[]): FileInfo | undefined {
 
 //#region INTERNAL
 
+/**
+ * Creates a line parser that assembles -slt blocks and calls onEntry for each file entry.
+ * Blocks between the '--' and '----------' markers describe the archive itself; they are
+ * collected for options.onArchiveInfo, called at the end.
+ */
+function createLineParser(onEntry: (file: FileInfo) => void, options?: SltParseOptions): SltLineParser {
+    let currentEntry: SltFileEntry = {};
+    let inHeader = false;
+    let inHeaderItem = false;
+    const headerBlocks: Record<string, string>[] = [];
+    let totalSize = 0;
+
+    const flush = (): void => {
+        if (!inHeader) {
+            totalSize += currentEntry.size ?? 0;
+            const fileInfo = convertToFileInfo(currentEntry, options?.detailed === true, options?.timeZone === TimeZonePolicy.UTC);
+            if (fileInfo) {
+                onEntry(fileInfo);
+            }
+        }
+        currentEntry = {};
+    };
+
+    return {
+        push(line: string): void {
+            const trimmed = line.replace(PASSWORD_PROMPT, '').trim();
+
+            // Section markers switch between archive header and file entries
+            if (trimmed === HEADER_MARKER || trimmed === ENTRIES_MARKER) {
+                flush();
+                inHeader = trimmed === HEADER_MARKER;
+                inHeaderItem = false;
+                if (inHeader) {
+                    headerBlocks.push({});
+                }
+                return;
+            }
+
+            if (inHeader) {
+                const separator = trimmed.indexOf(' = ');
+                if (trimmed === HEADER_ITEM_MARKER) {
+                    inHeaderItem = true;
+                } else if (separator !== -1 && !inHeaderItem) {
+                    headerBlocks[headerBlocks.length - 1][trimmed.substring(0, separator)] = trimmed.substring(separator + 3);
+                }
+                return;
+            }
+
+            // Empty line indicates end of current file entry
+            if (trimmed === '') {
+                flush();
+                return;
+            }
+
+            // Parse key = value format
+            const separatorIndex = trimmed.indexOf(' = ');
+            if (separatorIndex === -1) return;
+
+            const key = trimmed.substring(0, separatorIndex);
+            const value = trimmed.substring(separatorIndex + 3);
+
+            switch (key) {
+                case 'Path':
+                    // Names can end with spaces, so only the line break is removed from the path
+                    currentEntry.path = line.replace(PASSWORD_PROMPT, '').trimStart().replace(/[\r\n]+$/, '').substring(separatorIndex + 3);
+                    break;
+                case 'Size':
+                    currentEntry.size = parseInt(value, 10);
+                    break;
+                case 'Packed Size':
+                    currentEntry.packedSize = parseInt(value, 10);
+                    break;
+                case 'Modified':
+                    currentEntry.modified = value;
+                    break;
+                case 'Encrypted':
+                    currentEntry.encrypted = value;
+                    break;
+                case 'CRC':
+                    currentEntry.crc = value;
+                    break;
+                case 'Attributes':
+                    currentEntry.attributes = value;
+                    break;
+                case 'Folder':
+                    currentEntry.folder = value;
+                    break;
+                case 'Symbolic Link':
+                    currentEntry.symbolicLink = value;
+                    break;
+                case 'Hard Link':
+                    currentEntry.hardLink = value;
+                    break;
+                case 'Mode':
+                    currentEntry.mode = value;
+                    break;
+                case 'Method':
+                    currentEntry.method = value;
+                    break;
+                case 'Created':
+                    currentEntry.created = value;
+                    break;
+                case 'Accessed':
+                    currentEntry.accessed = value;
+                    break;
+                case 'Host OS':
+                    currentEntry.hostOS = value;
+                    break;
+                case 'Comment':
+                    currentEntry.comment = value;
+                    break;
+                case 'Block':
+                    currentEntry.block = value;
+                    break;
+            }
+        },
+
+        end(): void {
+            flush();
+            if (options?.onArchiveInfo && headerBlocks.length > 0) {
+                options.onArchiveInfo(convertToArchiveInfo(Object.assign({}, ...headerBlocks), totalSize));
+            }
+        },
+    };
+}
+
 /**
  * Converts raw SLT entry to FileInfo.
- * Returns null if entry is invalid (e.g., directory, missing path, or archive metadata).
+ * Returns null if entry is invalid (e.g., missing path) or a directory outside detailed listings.
  */
-function convertToFileInfo(entry: SltFileEntry): FileInfo | null {
+function convertToFileInfo(entry: SltFileEntry, detailed: boolean, utc: boolean): FileInfo | null {
     // Skip entries without a path
     if (!entry.path) {
         return null;
     }
 
-    // Skip archive metadata entries (they have no Attributes field)
-    // The first entry in -slt output is the archive itself, not a file inside it
-    if (entry.attributes === undefined) {
+    // Directories: 'Folder = +', or 'D' in attributes for formats without a Folder field
+    const isDirectory = entry.folder === '+' || entry.attributes?.includes('D') === true;
+    if (isDirectory && !detailed) {
         return null;
     }
 
-    // Skip directories (they have 'D' in attributes)
-    if (entry.attributes.includes('D')) {
-        return null;
+    // Tar reports link targets; ZIP and 7z only mark symbolic links by their Unix file type
+    let kind = isDirectory ? EntryKind.DIRECTORY : EntryKind.FILE;
+    if (entry.symbolicLink || SYMLINK_ATTRIBUTES.test(entry.attributes ?? '')) {
+        kind = EntryKind.SYMLINK;
+    } else if (entry.hardLink) {
+        kind = EntryKind.HARDLINK;
     }
 
-    // Parse the date from modified string (format: "2024-01-15 10:30:00")
-    let date = new Date();
-    if (entry.modified) {
-        const parsed = new Date(entry.modified.replace(' ', 'T'));
-        if (!isNaN(parsed.getTime())) {
-            date = parsed;
-        }
-    }
-
-    return {
+    const fileInfo: FileInfo = {
         filename: entry.path,
         size: entry.size ?? 0,
         compressedSize: entry.packedSize,
-        date,
+        date: parseDate(entry.modified, utc),
         encrypted: entry.encrypted === '+',
         crc: entry.crc,
+        kind,
+        linkTarget: entry.symbolicLink || entry.hardLink || undefined,
+    };
+    if (!detailed) {
+        return fileInfo;
+    }
+
+    // Empty values mean the archive does not store the field
+    const attributes = entry.attributes || entry.mode || undefined;
+    const block = entry.block ? parseInt(entry.block, 10) : NaN;
+    return {
+        ...fileInfo,
+        isDirectory,
+        attributes,
+        ...decodeAttributes(attributes ?? ''),
+        method: entry.method || undefined,
+        created: parseDate(entry.created, utc),
+        accessed: parseDate(entry.accessed, utc),
+        hostOS: entry.hostOS || undefined,
+        comment: entry.comment || undefined,
+        block: Number.isNaN(block) ? undefined : block,
+    };
+}
+
+/**
+ * Converts merged -slt header fields to ArchiveInfo.
+ */
+function convertToArchiveInfo(header: Record<string, string>, totalSize: number): ArchiveInfo {
+    const number = (key: string): number | undefined => {
+        const value = parseInt(header[key] ?? '', 10);
+        return Number.isNaN(value) ? undefined : value;
+    };
+    const flag = (key: string): boolean | undefined => (header[key] ? header[key] === '+' : undefined);
+
+    const physicalSize = number('Physical Size');
+    const volumes = number('Volumes');
+    return {
+        type: header['Type'] ?? '',
+        physicalSize,
+        headersSize: number('Headers Size'),
+        method: header['Method'] || undefined,
+        solid: flag('Solid'),
+        blocks: number('Blocks'),
+        multivolume: flag('Multivolume') ?? (volumes ?? 1) > 1,
+        volumes,
+        comment: header['Comment'] || undefined,
+        totalSize,
+        compressionRatio: physicalSize ? Math.round((totalSize / physicalSize) * 100) / 100 : undefined,
+    };
+}
+
+/**
+ * Parses a 7za date (format: "2024-01-15 10:30:00", optionally with a fraction of a second)
+ * as UTC or local time. Fractions are kept to the millisecond. Undefined if empty or invalid.
+ * 7za converts to local time with the current UTC offset, not the one in effect on that date
+ * (dates across a daylight saving change would be an hour off), so local dates are read back with it.
+ */
+function parseDate(value: string | undefined, utc: boolean): Date | undefined {
+    const match = DATE_TIME.exec(value ?? '');
+    if (!match) {
+        return undefined;
+    }
+
+    const [year, month, day, hours, minutes, seconds] = match.slice(1, 7).map(Number);
+    const milliseconds = Number((match[7] ?? '').padEnd(3, '0').substring(0, 3));
+    const date = new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds, milliseconds));
+
+    // Out-of-range fields (e.g., month 13) would roll over into a different date
+    if (date.getUTCDate() !== day || month < 1 || month > 12 || hours >= 24 || minutes >= 60 || seconds >= 60) {
+        return undefined;
+    }
+    return utc ? date : new Date(date.getTime() + new Date().getTimezoneOffset() * 60 * 1000);
+}
+
+/**
+ * Decodes 7za attributes: Windows attribute letters (e.g., 'RHSDA'), then '_' and the Unix
+ * file type and permissions if the archive stores them (e.g., 'RA_ -r--r--r--').
+ * Tar modes are permissions only (e.g., '0rw-r--r--').
+ */
+function decodeAttributes(attributes: string): Pick<FileInfo, 'unixMode' | 'readOnly' | 'hidden'> {
+    const permissions = UNIX_PERMISSIONS.exec(attributes);
+    const letters = permissions ? attributes.substring(0, permissions.index) : attributes;
+
+    let unixMode: number | undefined;
+    if (permissions) {
+        const chars = permissions[1];
+        unixMode = 0;
+        for (let i = 0; i < 9; i++) {
+            if (chars[i] !== '-' && chars[i] !== 'S' && chars[i] !== 'T') {
+                unixMode |= 0o400 >> i;
+            }
+        }
+        if (/[sS]/.test(chars[2])) unixMode |= 0o4000;
+        if (/[sS]/.test(chars[5])) unixMode |= 0o2000;
+        if (/[tT]/.test(chars[8])) unixMode |= 0o1000;
+    }
+
+    return {
+        unixMode,
+        readOnly: letters.includes('R') || (unixMode !== undefined && (unixMode & 0o200) === 0),
+        hidden: letters.includes('H'),
     };
 }
 
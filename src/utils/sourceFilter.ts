@@ -0,0 +1,136 @@
+// src/utils/sourceFilter.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import { type CompressOptions } from '../types/archive.types.js';
+import { createGlobMatcher } from './glob.js';
+import { type ProgressTotals } from './progress.js';
+
+//#region TYPES
+
+/** Options that select which files under the source paths are added */
+export type SourceFilter = Pick<CompressOptions, 'include' | 'exclude' | 'recursive' | 'skipHidden'>;
+
+/** A source path and the entry name it gets in the archive */
+export interface SourceRoot {
+    /** Absolute path on disk */
+    fullPath: string;
+    /** Entry name 7za stores it under ('/'-separated) */
+    storedName: string;
+    /** Entry name it ends up with after any renaming (patterns are matched against this) */
+    entryName: string;
+}
+
+/** Outcome of walking the source paths with a filter */
+export interface SourceSelection {
+    /** Sources that still contribute at least one entry */
+    sources: SourceRoot[];
+    /** Entry names (as 7za stores them, '/'-separated) to pass to 7za as exclusions */
+    excluded: string[];
+    /** Size and count of the files that will be added */
+    totals: Required<ProgressTotals>;
+}
+
+//#endregion
+
+//#region CONSTANTS
+
+/** OS metadata files and folders that are hidden or system without a leading dot */
+const SYSTEM_NAMES = new Set([
+    'thumbs.db',
+    'ehthumbs.db',
+    'desktop.ini',
+    '$recycle.bin',
+    'system volume information',
+]);
+
+//#endregion
+
+//#region PUBLIC API
+
+/**
+ * Checks whether any option would leave out part of the source paths.
+ */
+export function hasSourceFilter(filter: SourceFilter): boolean {
+    return (filter.include?.length ?? 0) > 0
+        || (filter.exclude?.length ?? 0) > 0
+        || filter.recursive === false
+        || filter.skipHidden === true;
+}
+
+/**
+ * Walks the sources and works out what a filter leaves out.
+ * Patterns are matched against entry names as they end up in the archive: a source directory
+ * named 'photos' becomes 'photos/...'. Exclusions are returned under the names 7za stores.
+ * Exclude patterns and the hidden check apply to files and directories, include patterns to
+ * files only; a directory left with no included files is excluded as a whole.
+ * Source paths themselves are never treated as hidden.
+ */
+export async function selectSources(roots: SourceRoot[], filter: SourceFilter): Promise<SourceSelection> {
+    const isIncluded = filter.include?.length ? createGlobMatcher(filter.include) : null;
+    const isExcluded = createGlobMatcher(filter.exclude ?? []);
+    const recursive = filter.recursive !== false;
+    const selection: SourceSelection = { sources: [], excluded: [], totals: { bytesTotal: 0, filesTotal: 0 } };
+
+    // Returns whether the path contributes any entry; paths that don't are added to the exclusions
+    const visit = async (fullPath: string, storedName: string, entryName: string, isSource: boolean): Promise<boolean> => {
+        const stats = await fs.lstat(fullPath);
+        const exclude = (): boolean => {
+            if (!isSource) {
+                selection.excluded.push(storedName);
+            }
+            return false;
+        };
+
+        if ((!isSource && filter.skipHidden && isHiddenName(path.basename(fullPath))) || isExcluded(entryName)) {
+            return exclude();
+        }
+
+        if (!stats.isDirectory()) {
+            if (isIncluded && !isIncluded(entryName)) {
+                return exclude();
+            }
+            if (stats.isFile()) {
+                selection.totals.bytesTotal += stats.size;
+                selection.totals.filesTotal++;
+            }
+            return true;
+        }
+
+        if (!isSource && !recursive) {
+            return exclude();
+        }
+
+        const mark = selection.excluded.length;
+        let kept = false;
+        for (const name of await fs.readdir(fullPath)) {
+            kept = (await visit(path.join(fullPath, name), `${storedName}/${name}`, `${entryName}/${name}`, false)) || kept;
+        }
+
+        // One exclusion for the directory replaces those of its contents
+        if (!kept && isIncluded) {
+            selection.excluded.length = mark;
+            return exclude();
+        }
+        return true;
+    };
+
+    for (const root of roots) {
+        if (await visit(root.fullPath, root.storedName, root.entryName, true)) {
+            selection.sources.push(root);
+        }
+    }
+    return selection;
+}
+
+//#endregion
+
+//#region INTERNAL
+
+/**
+ * Dot-names (hidden on Unix, and macOS metadata like .DS_Store) and known Windows system names.
+ */
+function isHiddenName(name: string): boolean {
+    return name.startsWith('.') || SYSTEM_NAMES.has(name.toLowerCase());
+}
+
+//#endregion
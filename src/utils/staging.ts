@@ -0,0 +1,191 @@
+// src/utils/staging.ts
+import { promises as fs, type Stats } from 'fs';
+import path from 'path';
+import { type FileInfo, ConflictPolicy } from '../types/archive.types.js';
+import { ArchiveError, ArchiveErrorCode, createErrorFromFsError } from '../types/errors.types.js';
+
+//#region TYPES
+
+/** A change made to the target while moving staged files into place */
+interface JournalEntry {
+    /** Path in the target that was created or replaced */
+    targetPath: string;
+    /** Where the replaced original was moved (absent if the path was new) */
+    backupPath?: string;
+}
+
+//#endregion
+
+//#region PUBLIC API
+
+/**
+ * Checks that every extracted file exists in the staging directory with its listed size.
+ * Returns the entries that are missing or incomplete.
+ */
+export async function findIncompleteFiles(stagingDir: string, files: FileInfo[]): Promise<string[]> {
+    const incomplete: string[] = [];
+    for (const file of files) {
+        const stats = await fs.lstat(path.join(stagingDir, file.filename)).catch(() => null);
+        if (!stats || (stats.isFile() && stats.size !== file.size)) {
+            incomplete.push(file.filename);
+        }
+    }
+    return incomplete;
+}
+
+/**
+ * Moves extracted files to other relative paths inside the staging directory
+ * (e.g., with leading folders stripped). Files that are missing are left for
+ * findIncompleteFiles to report.
+ */
+export async function arrangeStagedFiles(
+    extractedDir: string,
+    stagingDir: string,
+    moves: Array<{ from: string; to: string }>
+): Promise<void> {
+    for (const { from, to } of moves) {
+        const destination = path.join(stagingDir, to);
+        await fs.mkdir(path.dirname(destination), { recursive: true });
+        await fs.rename(path.join(extractedDir, from), destination).catch((error: NodeJS.ErrnoException) => {
+            if (error.code !== 'ENOENT') {
+                throw createErrorFromFsError(error, destination);
+            }
+        });
+    }
+}
+
+/**
+ * Moves the contents of a staging directory into the target directory.
+ * New paths are moved in whole (a new directory in one rename) and existing directories are merged.
+ * Existing files are handled per policy, like 7za's -ao switches: replaced (after being moved to
+ * backupDir), kept, or kept with the staged file moved in under a free 'name_N.ext' name.
+ * onEntry is called before each change and may throw to stop (e.g., on cancellation).
+ * On any failure every change is undone in reverse order, so the target is left as it was.
+ * Returns the target paths that did not receive their staged file: mapped to the name it was
+ * moved in under instead, or to null if the existing file was kept.
+ */
+export async function commitStagedFiles(
+    stagingDir: string,
+    targetDir: string,
+    backupDir: string,
+    policy: ConflictPolicy,
+    onEntry: (targetPath: string) => void
+): Promise<Map<string, string | null>> {
+    const journal: JournalEntry[] = [];
+    const redirected = new Map<string, string | null>();
+
+    const moveEntry = async (stagedPath: string, targetPath: string): Promise<void> => {
+        onEntry(targetPath);
+        const staged = await fs.lstat(stagedPath);
+        const existing = await fs.lstat(targetPath).catch(() => null);
+
+        if (!existing) {
+            await fs.rename(stagedPath, targetPath);
+            journal.push({ targetPath });
+            return;
+        }
+
+        if (staged.isDirectory() && existing.isDirectory()) {
+            for (const name of await fs.readdir(stagedPath)) {
+                await moveEntry(path.join(stagedPath, name), path.join(targetPath, name));
+            }
+            return;
+        }
+
+        switch (policy) {
+            case ConflictPolicy.SKIP:
+                redirected.set(targetPath, null);
+                return;
+            case ConflictPolicy.RENAME: {
+                const renamedPath = await findFreePath(targetPath);
+                await fs.rename(stagedPath, renamedPath);
+                journal.push({ targetPath: renamedPath });
+                redirected.set(targetPath, renamedPath);
+                return;
+            }
+            case ConflictPolicy.FAIL:
+                // Created after the pre-flight check
+                throw new ArchiveError(
+                    `Target file already exists: ${targetPath}`,
+                    ArchiveErrorCode.FILE_CONFLICT,
+                    { path: targetPath }
+                );
+        }
+
+        verifyReplaceable(staged, existing, targetPath);
+        const backupPath = path.join(backupDir, String(journal.length));
+        await fs.rename(targetPath, backupPath);
+        journal.push({ targetPath, backupPath });
+        await fs.rename(stagedPath, targetPath);
+    };
+
+    try {
+        await fs.mkdir(backupDir, { recursive: true });
+        await moveEntry(stagingDir, targetDir);
+    } catch (error) {
+        await rollback(journal);
+        throw error instanceof ArchiveError ? error : createErrorFromFsError(error, targetDir);
+    }
+    return redirected;
+}
+
+/**
+ * Removes a staging area after extraction.
+ * Backups of replaced files are kept if a rollback could not restore them.
+ */
+export async function removeStagingArea(stagingRoot: string, stagingDir: string, backupDir: string): Promise<void> {
+    await fs.rm(stagingDir, { recursive: true, force: true }).catch(() => {});
+    await fs.rmdir(backupDir).catch(() => {});
+    await fs.rmdir(stagingRoot).catch(() => {});
+}
+
+/**
+ * Returns the first 'name_N.ext' path next to targetPath that doesn't exist (7za -aou naming).
+ * Paths in taken count as existing (e.g., files 7za will have created by then).
+ */
+export async function findFreePath(targetPath: string, taken?: ReadonlySet<string>): Promise<string> {
+    const extension = path.extname(targetPath);
+    const stem = targetPath.slice(0, targetPath.length - extension.length);
+    for (let index = 1; ; index++) {
+        const candidate = `${stem}_${index}${extension}`;
+        if (!taken?.has(candidate) && !(await fs.lstat(candidate).catch(() => null))) {
+            return candidate;
+        }
+    }
+}
+
+//#endregion
+
+//#region INTERNAL
+
+/**
+ * Only a file can replace a file; 7za would also refuse to replace a directory with a file.
+ */
+function verifyReplaceable(staged: Stats, existing: Stats, targetPath: string): void {
+    if (staged.isDirectory() !== existing.isDirectory()) {
+        throw new ArchiveError(
+            `Cannot replace ${existing.isDirectory() ? 'directory' : 'file'} with ${staged.isDirectory() ? 'directory' : 'file'}: ${targetPath}`,
+            ArchiveErrorCode.INVALID_PATH,
+            { path: targetPath }
+        );
+    }
+}
+
+/**
+ * Undoes journal entries in reverse order: removes what was moved in and restores backups.
+ * Continues past individual failures so as much as possible is restored.
+ */
+async function rollback(journal: JournalEntry[]): Promise<void> {
+    for (const { targetPath, backupPath } of [...journal].reverse()) {
+        try {
+            await fs.rm(targetPath, { recursive: true, force: true });
+            if (backupPath) {
+                await fs.rename(backupPath, targetPath);
+            }
+        } catch {
+            // The backup stays in the staging area, which is then kept
+        }
+    }
+}
+
+//#endregion
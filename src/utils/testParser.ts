@@ -0,0 +1,134 @@
+// src/utils/testParser.ts
+import { type EntryTestResult, EntryTestStatus } from '../types/archive.types.js';
+
+//#region TYPES
+
+/** Incremental parser for 7za test (t -bb1 -bse1) output */
+export interface TestOutputParser {
+    /** Feeds a raw stdout chunk (may contain partial lines and progress backspaces) */
+    push(chunk: string): void;
+    /** Flushes any trailing partial line */
+    end(): void;
+    /** Entries tested so far, in archive order */
+    readonly entries: EntryTestResult[];
+    /** Error lines that could not be attributed to an entry (e.g., archive open errors) */
+    readonly archiveErrors: string[];
+}
+
+//#endregion
+
+//#region CONSTANTS
+
+/** 'T <path>' line emitted by -bb1 for each tested entry */
+const TESTED_LINE = /^T (.+)$/;
+
+/** 'ERROR: <reason> : <path>' line emitted for a failed entry */
+const ERROR_LINE = /^ERROR: (.+?)(?: : (.+))?$/;
+
+/** Error reasons mapped to entry statuses, checked in order */
+const STATUS_PATTERNS: { pattern: RegExp; status: EntryTestStatus }[] = [
+    { pattern: /Wrong password/i, status: EntryTestStatus.WRONG_PASSWORD },
+    { pattern: /CRC Failed/i, status: EntryTestStatus.CRC_ERROR },
+    { pattern: /Data Error/i, status: EntryTestStatus.DATA_ERROR },
+    { pattern: /Unsupported Method/i, status: EntryTestStatus.UNSUPPORTED_METHOD },
+];
+
+//#endregion
+
+//#region PUBLIC API
+
+/**
+ * Creates a parser that turns 7za test output into per-entry results.
+ * Error lines are attributed to the entry they name, or to the most recently tested entry
+ * when 7za reports a block rather than a path (e.g., "Data Error : #0" in solid archives).
+ */
+export function createTestOutputParser(): TestOutputParser {
+    const entries: EntryTestResult[] = [];
+    const archiveErrors: string[] = [];
+    let pending = '';
+    let inArchiveError = false;
+
+    const parseLine = (rawLine: string): void => {
+        // Progress updates are erased with backspaces; keep only what follows the last one
+        const line = rawLine.substring(rawLine.lastIndexOf('\b') + 1).replace(/^Enter password[^:]*:/, '').trim();
+        if (line === '') {
+            inArchiveError = false;
+            return;
+        }
+
+        const tested = line.match(TESTED_LINE);
+        if (tested) {
+            entries.push({ filename: tested[1], status: EntryTestStatus.OK });
+            return;
+        }
+
+        const error = line.match(ERROR_LINE);
+        if (!error) {
+            // Archive errors continue on the following lines (e.g., "Can not open encrypted archive")
+            if (inArchiveError) {
+                archiveErrors.push(line);
+            }
+            return;
+        }
+
+        const [, reason, target] = error;
+        const entry = findEntry(entries, target) ?? (target?.startsWith('#') ? entries[entries.length - 1] : undefined);
+        if (!entry) {
+            archiveErrors.push(line);
+            inArchiveError = true;
+            return;
+        }
+
+        entry.status = classifyTestError(reason);
+        entry.message = reason;
+    };
+
+    return {
+        push(chunk: string): void {
+            pending += chunk;
+            const lines = pending.split(/\r?\n/);
+            pending = lines.pop() ?? '';
+            lines.forEach(parseLine);
+        },
+
+        end(): void {
+            parseLine(pending);
+            pending = '';
+        },
+
+        entries,
+        archiveErrors,
+    };
+}
+
+/**
+ * Maps a 7za error reason (e.g., "CRC Failed") to an entry test status.
+ */
+export function classifyTestError(reason: string): EntryTestStatus {
+    for (const { pattern, status } of STATUS_PATTERNS) {
+        if (pattern.test(reason)) {
+            return status;
+        }
+    }
+    return EntryTestStatus.ERROR;
+}
+
+//#endregion
+
+//#region INTERNAL
+
+/**
+ * Finds the most recently tested entry with the given path.
+ */
+function findEntry(entries: EntryTestResult[], filename: string | undefined): EntryTestResult | undefined {
+    if (filename === undefined) return undefined;
+
+    for (let i = entries.length - 1; i >= 0; i--) {
+        if (entries[i].filename === filename) {
+            return entries[i];
+        }
+    }
+    return undefined;
+}
+
+//#endregion
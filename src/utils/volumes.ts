@@ -0,0 +1,119 @@
+// src/utils/volumes.ts
+import { promises as fs, readdirSync, statSync } from 'fs';
+import path from 'path';
+
+//#region CONSTANTS
+
+/** Numbered volume suffix written by 7za -v (e.g., '.001') */
+const VOLUME_SUFFIX = /\.(\d{3,})$/;
+
+/** Digits in a volume suffix */
+const VOLUME_DIGITS = 3;
+
+//#endregion
+
+//#region PUBLIC API
+
+/**
+ * Returns the 1-based volume number of a split archive path (e.g., 'data.zip.002' -> 2).
+ * Returns null if the path has no volume suffix.
+ */
+export function volumeIndex(archivePath: string): number | null {
+    const match = archivePath.match(VOLUME_SUFFIX);
+    return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Returns the archive path without its volume suffix (e.g., 'data.zip.001' -> 'data.zip').
+ */
+export function volumeBasePath(archivePath: string): string {
+    return archivePath.replace(VOLUME_SUFFIX, '');
+}
+
+/**
+ * Returns the path of a volume in the set (e.g., ('data.zip', 3) -> 'data.zip.003').
+ */
+export function volumePath(basePath: string, index: number): string {
+    return `${basePath}.${String(index).padStart(VOLUME_DIGITS, '0')}`;
+}
+
+/**
+ * Lists the volumes of a split archive that exist on disk, in volume order.
+ * Accepts the archive path with or without a volume suffix.
+ */
+export async function listVolumes(archivePath: string): Promise<string[]> {
+    const basePath = volumeBasePath(archivePath);
+    let names: string[];
+    try {
+        names = await fs.readdir(path.dirname(basePath));
+    } catch {
+        return [];
+    }
+    return selectVolumes(basePath, names);
+}
+
+/**
+ * Returns the volumes missing between the first volume and the last one on disk.
+ */
+export function findMissingVolumes(volumes: string[]): string[] {
+    if (volumes.length === 0) {
+        return [];
+    }
+
+    const basePath = volumeBasePath(volumes[0]);
+    const present = new Set(volumes.map(volume => volumeIndex(volume)));
+    const lastIndex = volumeIndex(volumes[volumes.length - 1]) ?? 0;
+
+    const missing: string[] = [];
+    for (let index = 1; index <= lastIndex; index++) {
+        if (!present.has(index)) {
+            missing.push(volumePath(basePath, index));
+        }
+    }
+    return missing;
+}
+
+/**
+ * Guesses the next volume of a set whose trailing volumes are missing.
+ * 7za fills every volume but the last to the same size, so a set of two or more volumes whose
+ * last volume is exactly as large as the first one is likely incomplete. Returns null if the set
+ * looks complete, or has a single volume (a damaged archive would otherwise look incomplete).
+ */
+export function findTruncatedVolume(archivePath: string): string | null {
+    const basePath = volumeBasePath(archivePath);
+    let volumes: string[];
+    try {
+        volumes = selectVolumes(basePath, readdirSync(path.dirname(basePath)));
+    } catch {
+        return null;
+    }
+
+    if (volumes.length < 2) {
+        return null;
+    }
+
+    const lastVolume = volumes[volumes.length - 1];
+    if (statSync(lastVolume).size !== statSync(volumes[0]).size) {
+        return null;
+    }
+    return volumePath(basePath, (volumeIndex(lastVolume) ?? 0) + 1);
+}
+
+//#endregion
+
+//#region INTERNAL
+
+/**
+ * Picks the volume files of a base path from a directory listing, sorted by volume number.
+ */
+function selectVolumes(basePath: string, names: string[]): string[] {
+    const dir = path.dirname(basePath);
+    const baseName = path.basename(basePath);
+
+    return names
+        .filter(name => name.startsWith(`${baseName}.`) && volumeBasePath(name) === baseName)
+        .map(name => path.join(dir, name))
+        .sort((a, b) => (volumeIndex(a) ?? 0) - (volumeIndex(b) ?? 0));
+}
+
+//#endregion
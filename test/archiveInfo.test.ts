@@ -0,0 +1,121 @@
+// test/archiveInfo.test.ts
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import { randomBytes } from 'crypto';
+import { statSync, writeFileSync } from 'fs';
+import path from 'path';
+import { ArchiveOps, ArchiveFormat } from '../src/index.js';
+import { parseSltArchiveInfo, parseSltArchiveType } from '../src/utils/sltParser.js';
+import { SEVEN_ZIP, SKIP_WITHOUT_7ZA, createTempDir, removeTempDir } from './helpers.js';
+
+/** -slt header of a 7z archive split into volumes, as 7za lists it from the first volume */
+const VOLUME_LISTING = [
+    '--',
+    'Path = v.7z.001',
+    'Type = Split',
+    'Physical Size = 1024',
+    'Volumes = 4',
+    'Total Physical Size = 3126',
+    '----',
+    'Path = v.7z',
+    'Size = 3126',
+    '--',
+    'Path = v.7z',
+    'Type = 7z',
+    'Physical Size = 3126',
+    'Headers Size = 122',
+    'Method = LZMA2:12',
+    'Solid = -',
+    'Blocks = 1',
+    '',
+    '----------',
+    'Path = r.bin',
+    'Size = 3000',
+    '',
+].join('\n');
+
+describe('parseSltArchiveInfo', () => {
+    it('merges volume and archive headers, the archive winning', () => {
+        assert.deepEqual(parseSltArchiveInfo(VOLUME_LISTING), {
+            type: '7z',
+            physicalSize: 3126,
+            headersSize: 122,
+            method: 'LZMA2:12',
+            solid: false,
+            blocks: 1,
+            multivolume: true,
+            volumes: 4,
+            comment: undefined,
+            totalSize: 3000,
+            compressionRatio: 0.96,
+        });
+        assert.equal(parseSltArchiveType(VOLUME_LISTING), '7z');
+    });
+
+    it('reads comments and flags, and leaves out what is missing', () => {
+        const info = parseSltArchiveInfo('--\nPath = a.zip\nType = zip\nComment = release 1.2\nMultivolume = -\n----------\n');
+        assert.equal(info?.type, 'zip');
+        assert.equal(info?.comment, 'release 1.2');
+        assert.equal(info?.multivolume, false);
+        assert.equal(info?.solid, undefined);
+        assert.equal(info?.physicalSize, undefined);
+        assert.equal(info?.compressionRatio, undefined);
+    });
+
+    it('returns undefined without a header', () => {
+        assert.equal(parseSltArchiveInfo('----------\nPath = a.txt\nSize = 1\n'), undefined);
+    });
+});
+
+describe('archiveInfo with 7za', { skip: SKIP_WITHOUT_7ZA }, () => {
+    let dir: string;
+
+    before(() => {
+        dir = createTempDir();
+        writeFileSync(path.join(dir, 'a.txt'), 'a'.repeat(10000));
+        writeFileSync(path.join(dir, 'b.txt'), 'b'.repeat(10000));
+        writeFileSync(path.join(dir, 'random.bin'), randomBytes(3000));
+    });
+
+    after(() => removeTempDir(dir));
+
+    it('reports the format, solid blocks and ratio of a 7z archive', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        const archivePath = path.join(dir, 'solid.7z');
+        await ops.compress([path.join(dir, 'a.txt'), path.join(dir, 'b.txt')], archivePath);
+
+        const { archiveInfo } = await ops.listEntries(archivePath);
+        assert.equal(archiveInfo?.type, '7z');
+        assert.equal(archiveInfo?.solid, true);
+        assert.equal(archiveInfo?.blocks, 1);
+        assert.equal(archiveInfo?.multivolume, false);
+        assert.equal(archiveInfo?.physicalSize, statSync(archivePath).size);
+        assert.equal(archiveInfo?.totalSize, 20000);
+        assert.ok((archiveInfo?.compressionRatio ?? 0) > 10);
+    });
+
+    it('reports the volumes of a split archive', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        const archivePath = path.join(dir, 'split.7z');
+        await ops.compress([path.join(dir, 'random.bin')], archivePath, { volumeSize: 1024 });
+
+        const { archiveInfo } = await ops.listEntries(`${archivePath}.001`);
+        assert.equal(archiveInfo?.type, '7z');
+        assert.equal(archiveInfo?.multivolume, true);
+        assert.ok((archiveInfo?.volumes ?? 0) > 1);
+    });
+
+    it('rates a tar.gz by its size on disk', async () => {
+        const archivePath = path.join(dir, 'text.tar.gz');
+        // compress only writes zip and 7z
+        assert.equal(spawnSync('tar', ['czf', archivePath, 'a.txt', 'b.txt'], { cwd: dir }).status, 0);
+
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        const result = await ops.listEntries(archivePath);
+        assert.equal(result.format, ArchiveFormat.TAR_GZIP);
+        assert.equal(result.archiveInfo?.physicalSize, statSync(archivePath).size);
+        assert.equal(result.archiveInfo?.totalSize, 20000);
+        assert.equal(result.archiveInfo?.compressionRatio, Math.round((20000 / statSync(archivePath).size) * 100) / 100);
+    });
+});
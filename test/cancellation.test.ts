@@ -0,0 +1,75 @@
+// test/cancellation.test.ts
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { ArchiveOps, ArchiveErrorCode, ProgressPhase } from '../src/index.js';
+import { SEVEN_ZIP, SKIP_WITHOUT_7ZA, createTempDir, removeTempDir } from './helpers.js';
+
+describe('cancellation', { skip: SKIP_WITHOUT_7ZA }, () => {
+    let dir: string;
+    let archivePath: string;
+    let prefixedPath: string;
+    let largePath: string;
+
+    before(async () => {
+        dir = createTempDir();
+        writeFileSync(path.join(dir, 'a.txt'), 'hello');
+        archivePath = path.join(dir, 'plain.7z');
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP });
+        await ops.compress([path.join(dir, 'a.txt')], archivePath);
+        // Data before the signature hides the format, so 7za has to be asked for it
+        prefixedPath = path.join(dir, 'prefixed.bin');
+        writeFileSync(prefixedPath, Buffer.concat([Buffer.from('prefix'), readFileSync(archivePath)]));
+        // Random content takes 7za long enough to be stopped while it compresses
+        largePath = path.join(dir, 'large.bin');
+        writeFileSync(largePath, randomBytes(32 * 1024 * 1024));
+    });
+
+    after(() => removeTempDir(dir));
+
+    it('does not carry a cancellation over to the next operation', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        const controller = new AbortController();
+        controller.abort();
+        await assert.rejects(ops.listEntries(archivePath, { signal: controller.signal }), { code: ArchiveErrorCode.OPERATION_CANCELLED });
+
+        const result = await ops.listEntries(prefixedPath);
+        assert.deepEqual(result.files.map(file => file.filename), ['a.txt']);
+    });
+
+    it('cancels while asking 7za for the format', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        const controller = new AbortController();
+        controller.abort();
+        await assert.rejects(ops.test(prefixedPath, { signal: controller.signal }), {
+            code: ArchiveErrorCode.OPERATION_CANCELLED,
+            details: { archivePath: prefixedPath },
+        });
+    });
+
+    for (const via of ['cancel()', 'signal'] as const) {
+        it(`stops 7za via ${via}`, async () => {
+            const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 60000 });
+            const controller = new AbortController();
+            const outputPath = path.join(dir, `cancelled-${via}.7z`);
+            const stop = via === 'signal' ? () => controller.abort() : () => ops.cancel();
+            let stopped = false;
+            await assert.rejects(ops.compress([largePath], outputPath, {
+                signal: controller.signal,
+                onProgressEvent: (event) => {
+                    if (event.phase === ProgressPhase.COMPRESSING && (event.percent ?? 0) > 0 && !stopped) {
+                        stopped = true;
+                        stop();
+                    }
+                },
+            }), { code: ArchiveErrorCode.OPERATION_CANCELLED });
+            assert.equal(existsSync(outputPath), false);
+
+            // The instance is free for the next operation
+            const result = await ops.listEntries(archivePath);
+            assert.deepEqual(result.files.map(file => file.filename), ['a.txt']);
+        });
+    }
+});
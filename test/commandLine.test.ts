@@ -0,0 +1,199 @@
+// test/commandLine.test.ts
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { copyFileSync, existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { ArchiveOps, ArchiveErrorCode } from '../src/index.js';
+import { buildCommandLine, removeListFiles, type CommandLine } from '../src/utils/commandLine.js';
+import { SEVEN_ZIP, SKIP_WITHOUT_7ZA, createTempDir, removeTempDir } from './helpers.js';
+
+/** Names 7za would read as switches, list files, wildcards or the end of switches, or change in list files */
+const HOSTILE_NAMES = ['-x', '-r', '@list', 'a*', 'q?', '--', 'b ', ' b', '"q"'];
+
+/** Names the wildcards in HOSTILE_NAMES would also match */
+const DECOY_NAMES = ['ab', 'qz'];
+
+/**
+ * Reads the names of a list file passed as '@path'.
+ */
+function readListFile(argument: string): string[] {
+    return readFileSync(argument.slice(1), 'utf8').split('\n').slice(0, -1);
+}
+
+describe('buildCommandLine', () => {
+    const archivePath = path.resolve('archive.7z');
+    const built: CommandLine[] = [];
+    const build = async (...args: Parameters<typeof buildCommandLine>): Promise<CommandLine> => {
+        const commandLine = await buildCommandLine(...args);
+        built.push(commandLine);
+        return commandLine;
+    };
+
+    after(() => Promise.all(built.map(removeListFiles)));
+
+    it('ends switches before names starting with -', async () => {
+        const { args, listFiles } = await build({ command: 'x', switches: ['-bsp1'], archivePath, names: ['-x', '-r', '--'] });
+        assert.deepEqual(args, ['x', '-bsp1', '--', archivePath, '-x', '-r', '--']);
+        assert.deepEqual(listFiles, []);
+    });
+
+    it('passes names through a list file when one starts with @', async () => {
+        const { args, listFiles } = await build({ command: 'd', archivePath, names: ['@list', '-x', 'a.txt'] });
+        assert.equal(listFiles.length, 1);
+        assert.deepEqual(args, ['d', '-scsUTF-8', archivePath, `@${listFiles[0]}`]);
+        assert.ok(!args.includes('--'), 'a list file after -- would be taken as a name');
+        assert.deepEqual(readListFile(args[args.length - 1]), ['@list', '-x', 'a.txt']);
+    });
+
+    it('passes names a list file would change after --', async () => {
+        const { args, listFiles } = await build({ command: 'x', archivePath, names: ['@list', 'a ', ' b', '"q"', '"', 'c'], useListFile: true });
+        assert.deepEqual(args, ['x', '-scsUTF-8', archivePath, `@${listFiles[0]}`, '--', 'a ', ' b', '"q"']);
+        assert.deepEqual(readListFile(`@${listFiles[0]}`), ['@list', '"', 'c']);
+
+        const renamed = await build({ command: 'rn', archivePath, names: ['@old', 'new', 'a', 'b\t', 'c', 'd'] });
+        assert.deepEqual(renamed.args.slice(-3), ['--', 'a', 'b\t']);
+        assert.deepEqual(readListFile(renamed.args[renamed.args.length - 4]), ['@old', 'new', 'c', 'd']);
+
+        const excluded = await build({ command: 'a', archivePath, names: ['dir'], excludedNames: [' x', 'y'] });
+        assert.ok(excluded.args.includes('-x! x'));
+        const exclusions = excluded.args.find(arg => arg.startsWith('-x@')) ?? '';
+        assert.deepEqual(readListFile(exclusions.slice(2)), ['y']);
+    });
+
+    it('turns wildcard matching off for names and archive paths with * or ?', async () => {
+        const names = await build({ command: 'x', archivePath, names: ['a*', 'b'] });
+        assert.deepEqual(names.args, ['x', '-spd', '--', archivePath, 'a*', 'b']);
+
+        const listed = await build({ command: 'l', archivePath: path.resolve('w?.7z') });
+        assert.ok(listed.args.includes('-spd'));
+
+        const excluded = await build({ command: 'a', archivePath, names: ['dir'], excludedNames: ['dir/q?'] });
+        assert.ok(excluded.args.includes('-spd'));
+        const exclusions = excluded.args.find(arg => arg.startsWith('-x@')) ?? '';
+        assert.deepEqual(readListFile(exclusions.slice(2)), ['dir/q?']);
+
+        const plain = await build({ command: 'x', archivePath, names: ['a.txt'] });
+        assert.ok(!plain.args.includes('-spd'));
+    });
+
+    it('makes archive paths absolute', async () => {
+        for (const relativePath of ['-archive.7z', '@archive.7z']) {
+            const { args } = await build({ command: 'l', archivePath: relativePath });
+            assert.equal(args[args.length - 1], path.resolve(relativePath));
+        }
+    });
+
+    it('rejects null bytes, and line breaks in list files', async () => {
+        await assert.rejects(build({ command: 'x', archivePath, names: ['a\0b'] }), { code: ArchiveErrorCode.INVALID_PATH });
+        await assert.rejects(build({ command: 'x', archivePath: 'a\0.7z' }), { code: ArchiveErrorCode.INVALID_PATH });
+        await assert.rejects(build({ command: 'x', archivePath, names: ['@list', 'a\nb'] }), { code: ArchiveErrorCode.INVALID_PATH });
+        await assert.rejects(build({ command: 'a', archivePath, excludedNames: ['a\rb'] }), { code: ArchiveErrorCode.INVALID_PATH });
+        await assert.rejects(build({ command: 'x', archivePath, names: ['@list '] }), { code: ArchiveErrorCode.INVALID_PATH });
+    });
+
+    it('makes output directories absolute and rejects wildcards in them', async () => {
+        const { args } = await build({ command: 'x', archivePath, outputDir: 'out' });
+        assert.deepEqual(args, ['x', `-o${path.resolve('out')}`, '--', archivePath]);
+        for (const outputDir of ['out*x', 'out?']) {
+            await assert.rejects(build({ command: 'x', archivePath, outputDir }), { code: ArchiveErrorCode.INVALID_PATH });
+        }
+    });
+
+    it('rejects malformed commands and switches', async () => {
+        for (const command of [
+            { command: '-x' },
+            { command: 'x y' },
+            { command: 'x', switches: ['bsp1'] },
+            { command: 'x', switches: ['--'] },
+            { command: 'x', switches: ['-'] },
+        ]) {
+            await assert.rejects(build(command), { code: ArchiveErrorCode.COMMAND_LINE_ERROR }, JSON.stringify(command));
+        }
+    });
+});
+
+describe('hostile names with 7za', { skip: SKIP_WITHOUT_7ZA }, () => {
+    let dir: string;
+    let sourceDir: string;
+    let archivePath: string;
+    let ops: ArchiveOps;
+
+    before(async () => {
+        dir = createTempDir();
+        sourceDir = path.join(dir, 'source');
+        mkdirSync(sourceDir);
+        for (const name of [...HOSTILE_NAMES, ...DECOY_NAMES]) {
+            writeFileSync(path.join(sourceDir, name), `content of ${name}`);
+        }
+        archivePath = path.join(dir, 'names.7z');
+        ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        await ops.compress(HOSTILE_NAMES.map(name => path.join(sourceDir, name)), archivePath);
+    });
+
+    after(() => removeTempDir(dir));
+
+    it('adds caller paths literally', async () => {
+        const result = await ops.listEntries(archivePath);
+        assert.deepEqual(result.files.map(file => file.filename).sort(), [...HOSTILE_NAMES].sort());
+    });
+
+    it('extracts entry names from the archive literally', async () => {
+        const targetDir = path.join(dir, 'all');
+        await ops.decompress(archivePath, targetDir);
+        assert.deepEqual(readdirSync(targetDir).sort(), [...HOSTILE_NAMES].sort());
+        for (const name of HOSTILE_NAMES) {
+            assert.equal(readFileSync(path.join(targetDir, name), 'utf8'), `content of ${name}`);
+        }
+    });
+
+    it('extracts only the entries a caller names', async () => {
+        const withDecoys = path.join(dir, 'decoys.7z');
+        await ops.compress([...HOSTILE_NAMES, ...DECOY_NAMES].map(name => path.join(sourceDir, name)), withDecoys);
+
+        for (const name of HOSTILE_NAMES) {
+            const targetDir = path.join(dir, `one-${HOSTILE_NAMES.indexOf(name)}`);
+            const result = await ops.decompress(withDecoys, targetDir, { fileList: [name] });
+            assert.deepEqual(readdirSync(targetDir), [name]);
+            assert.deepEqual(result.files.map(file => file.filename), [name]);
+        }
+    });
+
+    it('extracts selected entries a list file would change', async () => {
+        const targetDir = path.join(dir, 'selected');
+        const result = await ops.decompress(archivePath, targetDir, { select: { regex: [/^[ "]| $/] } });
+        const selected = ['b ', ' b', '"q"'];
+        assert.deepEqual(readdirSync(targetDir).sort(), [...selected].sort());
+        for (const file of result.files) {
+            assert.ok(file.extractedPath, `${file.filename} should be extracted`);
+            assert.equal(readFileSync(file.extractedPath, 'utf8'), `content of ${file.filename}`);
+        }
+    });
+
+    it('deletes and renames only the named entries', async () => {
+        const editedPath = path.join(dir, 'edited.7z');
+        await ops.compress([...HOSTILE_NAMES, ...DECOY_NAMES].map(name => path.join(sourceDir, name)), editedPath);
+
+        await ops.deleteEntries(editedPath, ['a*', '-x']);
+        await ops.renameEntries(editedPath, { 'q?': 'renamed', '--': '@renamed' });
+        const result = await ops.listEntries(editedPath);
+        assert.deepEqual(result.files.map(file => file.filename).sort(), [' b', '"q"', '-r', '@list', '@renamed', 'ab', 'b ', 'qz', 'renamed']);
+    });
+
+    it('refuses to extract into a directory with wildcards', async () => {
+        const targetDir = path.join(dir, 'out*x');
+        await assert.rejects(ops.decompress(archivePath, targetDir), { code: ArchiveErrorCode.INVALID_PATH });
+        assert.equal(existsSync(targetDir), false);
+        assert.equal(existsSync(path.join(dir, 'outnamesx')), false);
+    });
+
+    it('reads an archive whose path has wildcards', async () => {
+        const wildPath = path.join(dir, 'nam*.7z');
+        copyFileSync(archivePath, wildPath);
+        assert.ok(existsSync(path.join(dir, 'names.7z')), 'the wildcard must match another archive');
+
+        const result = await ops.listEntries(wildPath);
+        assert.deepEqual(result.files.map(file => file.filename).sort(), [...HOSTILE_NAMES].sort());
+        const tested = await ops.test(wildPath);
+        assert.equal(tested.success, true);
+    });
+});
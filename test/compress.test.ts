@@ -0,0 +1,80 @@
+// test/compress.test.ts
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { ArchiveOps } from '../src/index.js';
+import { SEVEN_ZIP, SKIP_WITHOUT_7ZA, createTempDir, removeTempDir } from './helpers.js';
+
+describe('compress entry names', { skip: SKIP_WITHOUT_7ZA }, () => {
+    let dir: string;
+
+    before(() => {
+        dir = createTempDir();
+        for (const [relativePath, content] of [
+            ['a/out.tif', 'from a'],
+            ['b/deep/out.tif', 'from b'],
+            ['a/data/keep.txt', 'a data'],
+            ['a/data/skip.log', 'a log'],
+            ['b/data/keep.txt', 'b data'],
+        ]) {
+            mkdirSync(path.dirname(path.join(dir, relativePath)), { recursive: true });
+            writeFileSync(path.join(dir, relativePath), content);
+        }
+    });
+
+    after(() => removeTempDir(dir));
+
+    it('stores sources with the same name under different entry names', async () => {
+        const archivePath = path.join(dir, 'files.7z');
+        const first = path.join(dir, 'a/out.tif');
+        const second = path.join(dir, 'b/deep/out.tif');
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        await ops.compress([first, second], archivePath, { entryNames: { [first]: 'x.tif', [second]: 'y.tif' } });
+
+        const targetDir = path.join(dir, 'files');
+        const result = await ops.decompress(archivePath, targetDir);
+        assert.deepEqual(result.files.map(file => file.filename).sort(), ['x.tif', 'y.tif']);
+        assert.equal(readFileSync(path.join(targetDir, 'x.tif'), 'utf8'), 'from a');
+        assert.equal(readFileSync(path.join(targetDir, 'y.tif'), 'utf8'), 'from b');
+    });
+
+    it('filters directories with the same name under different entry names', async () => {
+        const archivePath = path.join(dir, 'dirs.7z');
+        const first = path.join(dir, 'a/data');
+        const second = path.join(dir, 'b/data');
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        await ops.compress([first, second], archivePath, { entryNames: { [first]: 'p', [second]: 'q' }, exclude: ['*.log'] });
+
+        const result = await ops.listEntries(archivePath);
+        assert.deepEqual(result.files.map(file => file.filename).sort(), ['p/keep.txt', 'q/keep.txt']);
+    });
+});
+
+describe('compress onto an existing archive', { skip: SKIP_WITHOUT_7ZA }, () => {
+    let dir: string;
+
+    before(() => {
+        dir = createTempDir();
+        writeFileSync(path.join(dir, 'old.txt'), 'old');
+        writeFileSync(path.join(dir, 'new.txt'), 'new');
+    });
+
+    after(() => removeTempDir(dir));
+
+    it('replaces the archive, or adds to it in place', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        const listNames = async (archivePath: string): Promise<string[]> =>
+            (await ops.listEntries(archivePath)).files.map(file => file.filename).sort();
+
+        const replacedPath = path.join(dir, 'replaced.zip');
+        await ops.compress([path.join(dir, 'old.txt')], replacedPath);
+        await ops.compress([path.join(dir, 'new.txt')], replacedPath);
+        assert.deepEqual(await listNames(replacedPath), ['new.txt']);
+
+        const addedPath = path.join(dir, 'added.zip');
+        await ops.compress([path.join(dir, 'old.txt')], addedPath);
+        await ops.compress([path.join(dir, 'new.txt')], addedPath, { inPlace: true });
+        assert.deepEqual(await listNames(addedPath), ['new.txt', 'old.txt']);
+    });
+});
@@ -0,0 +1,42 @@
+// test/conflicts.test.ts
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { ArchiveOps, ConflictPolicy } from '../src/index.js';
+import { SEVEN_ZIP, SKIP_WITHOUT_7ZA, createTempDir, removeTempDir } from './helpers.js';
+
+describe('extraction conflicts', { skip: SKIP_WITHOUT_7ZA }, () => {
+    let dir: string;
+    let archivePath: string;
+
+    before(async () => {
+        dir = createTempDir();
+        const sourceDir = path.join(dir, 'source');
+        mkdirSync(sourceDir);
+        writeFileSync(path.join(sourceDir, 'a.txt'), 'archived a');
+        writeFileSync(path.join(sourceDir, 'a_1.txt'), 'archived a_1');
+        archivePath = path.join(dir, 'names.7z');
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP });
+        await ops.compress([path.join(sourceDir, 'a.txt'), path.join(sourceDir, 'a_1.txt')], archivePath);
+    });
+
+    after(() => removeTempDir(dir));
+
+    for (const staged of [false, true]) {
+        it(`reports renamed paths that the archive's own entries take${staged ? ' (staged)' : ''}`, async () => {
+            const targetDir = path.join(dir, staged ? 'staged' : 'direct');
+            mkdirSync(targetDir);
+            writeFileSync(path.join(targetDir, 'a.txt'), 'existing');
+
+            const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+            const result = await ops.decompress(archivePath, targetDir, { conflictPolicy: ConflictPolicy.RENAME, staged });
+
+            assert.equal(readFileSync(path.join(targetDir, 'a.txt'), 'utf8'), 'existing');
+            for (const file of result.files) {
+                assert.ok(file.extractedPath, `${file.filename} should be extracted`);
+                assert.equal(readFileSync(file.extractedPath, 'utf8'), `archived ${path.parse(file.filename).name}`);
+            }
+        });
+    }
+});
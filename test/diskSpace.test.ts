@@ -0,0 +1,80 @@
+// test/diskSpace.test.ts
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, writeFileSync } from 'fs';
+import path from 'path';
+import { ArchiveOps, ArchiveErrorCode } from '../src/index.js';
+import { ensureFreeSpace, getAvailableSpace, verifyDiskSpaceCheck } from '../src/utils/diskSpace.js';
+import { SEVEN_ZIP, SKIP_WITHOUT_7ZA, createTempDir, removeTempDir } from './helpers.js';
+
+/** A margin no test machine has free */
+const HUGE_MARGIN = 2 ** 52;
+
+describe('disk space checks', () => {
+    let dir: string;
+
+    before(() => {
+        dir = createTempDir();
+    });
+
+    after(() => removeTempDir(dir));
+
+    it('rejects negative and non-finite margins', () => {
+        verifyDiskSpaceCheck({ marginBytes: 0, marginRatio: 0.5 });
+        for (const check of [{ marginBytes: -1 }, { marginRatio: Infinity }, { marginRatio: NaN }]) {
+            assert.throws(() => verifyDiskSpaceCheck(check), { code: ArchiveErrorCode.INVALID_OPTIONS });
+        }
+    });
+
+    it('reads free space from the nearest existing parent', async () => {
+        const available = await getAvailableSpace(path.join(dir, 'not', 'created', 'yet'));
+        assert.ok(available !== null && available > 0);
+    });
+
+    it('reports the shortfall, margins included', async () => {
+        await ensureFreeSpace(dir, 1, {});
+        await assert.rejects(ensureFreeSpace(dir, 100, { marginBytes: HUGE_MARGIN, marginRatio: 1 }), (error: { code: string; details: Record<string, number> }) => {
+            assert.equal(error.code, ArchiveErrorCode.DISK_FULL);
+            assert.equal(error.details.requiredBytes, 200 + HUGE_MARGIN);
+            assert.equal(error.details.shortfallBytes, error.details.requiredBytes - error.details.availableBytes);
+            return true;
+        });
+        await ensureFreeSpace(dir, 100, { enabled: false, marginBytes: HUGE_MARGIN });
+    });
+});
+
+describe('disk space checks with 7za', { skip: SKIP_WITHOUT_7ZA }, () => {
+    let dir: string;
+    let archivePath: string;
+
+    before(async () => {
+        dir = createTempDir();
+        writeFileSync(path.join(dir, 'a.txt'), 'a'.repeat(1000));
+        archivePath = path.join(dir, 'space.7z');
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP });
+        await ops.compress([path.join(dir, 'a.txt')], archivePath);
+    });
+
+    after(() => removeTempDir(dir));
+
+    it('throws before compressing when space is short', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000, diskSpaceCheck: { marginBytes: HUGE_MARGIN } });
+        const fullPath = path.join(dir, 'full.7z');
+        await assert.rejects(ops.compress([path.join(dir, 'a.txt')], fullPath), { code: ArchiveErrorCode.DISK_FULL });
+        assert.equal(existsSync(fullPath), false);
+
+        // Filters walk the sources, so the check runs before 7za starts
+        await assert.rejects(ops.compress([path.join(dir, 'a.txt')], fullPath, { exclude: ['*.tmp'] }), { code: ArchiveErrorCode.DISK_FULL });
+        assert.equal(existsSync(fullPath), false);
+    });
+
+    it('throws before extracting when space is short, unless disabled', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        const targetDir = path.join(dir, 'out');
+        await assert.rejects(ops.decompress(archivePath, targetDir, { diskSpaceCheck: { marginBytes: HUGE_MARGIN } }), { code: ArchiveErrorCode.DISK_FULL });
+        assert.equal(existsSync(targetDir), false);
+
+        await ops.decompress(archivePath, targetDir, { diskSpaceCheck: { enabled: false, marginBytes: HUGE_MARGIN } });
+        assert.equal(existsSync(path.join(targetDir, 'a.txt')), true);
+    });
+});
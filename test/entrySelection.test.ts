@@ -0,0 +1,97 @@
+// test/entrySelection.test.ts
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, readdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { ArchiveOps, ArchiveErrorCode, type EntrySelector, type FileInfo } from '../src/index.js';
+import { selectEntries } from '../src/utils/entrySelection.js';
+import { SEVEN_ZIP, SKIP_WITHOUT_7ZA, createTempDir, removeTempDir } from './helpers.js';
+
+/** A listing to select from */
+const FILES: FileInfo[] = [
+    { filename: 'docs/readme.md', size: 100, date: new Date('2024-01-10T00:00:00Z') },
+    { filename: 'docs/guide.MD', size: 5000, date: new Date('2024-06-01T00:00:00Z') },
+    { filename: 'src/index.ts', size: 800, date: new Date('2024-03-15T00:00:00Z') },
+    { filename: 'src/util/path.ts', size: 300 },
+];
+
+/**
+ * Names of the entries a selector picks from FILES.
+ */
+function select(selector: EntrySelector): string[] {
+    return selectEntries(FILES, selector).files.map(file => file.filename);
+}
+
+describe('selectEntries', () => {
+    it('matches any pattern within a kind, and every kind', () => {
+        assert.deepEqual(select({ globs: ['docs/**', '*.ts'] }), FILES.map(file => file.filename));
+        assert.deepEqual(select({ extensions: ['md'] }), ['docs/readme.md', 'docs/guide.MD']);
+        assert.deepEqual(select({ extensions: ['.ts'], regex: [/util/] }), ['src/util/path.ts']);
+        assert.deepEqual(select({ globs: ['docs/**'], extensions: ['ts'] }), []);
+    });
+
+    it('filters by size and date', () => {
+        assert.deepEqual(select({ minSize: 300, maxSize: 800 }), ['src/index.ts', 'src/util/path.ts']);
+        // Entries without a date never match a date bound
+        assert.deepEqual(select({ minDate: new Date('2024-02-01T00:00:00Z') }), ['docs/guide.MD', 'src/index.ts']);
+        assert.deepEqual(select({ maxDate: new Date('2024-03-15T00:00:00Z') }), ['docs/readme.md', 'src/index.ts']);
+    });
+
+    it('reports patterns that match no entry', () => {
+        const selection = selectEntries(FILES, { globs: ['*.ts', '*.png'], regex: [/^lib\//], extensions: ['md', 'txt'], maxSize: 10 });
+        assert.deepEqual(selection.files, []);
+        assert.deepEqual(selection.unmatched, ['*.png', '/^lib\\//', 'txt']);
+    });
+
+    it('rejects malformed selectors', () => {
+        const invalid = { code: ArchiveErrorCode.INVALID_OPTIONS };
+        assert.throws(() => selectEntries(FILES, { globs: [''] }), invalid);
+        assert.throws(() => selectEntries(FILES, { extensions: ['.'] }), invalid);
+        assert.throws(() => selectEntries(FILES, { regex: ['*.ts' as unknown as RegExp] }), invalid);
+        assert.throws(() => selectEntries(FILES, { minSize: -1 }), invalid);
+        assert.throws(() => selectEntries(FILES, { maxDate: new Date('not a date') }), invalid);
+    });
+});
+
+describe('select with 7za', { skip: SKIP_WITHOUT_7ZA }, () => {
+    let dir: string;
+    let archivePath: string;
+
+    before(async () => {
+        dir = createTempDir();
+        const sourceDir = path.join(dir, 'source');
+        for (const file of FILES) {
+            mkdirSync(path.dirname(path.join(sourceDir, file.filename)), { recursive: true });
+            writeFileSync(path.join(sourceDir, file.filename), 'x'.repeat(file.size));
+        }
+        archivePath = path.join(dir, 'selection.7z');
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP });
+        await ops.compress([path.join(sourceDir, 'docs'), path.join(sourceDir, 'src')], archivePath);
+    });
+
+    after(() => removeTempDir(dir));
+
+    it('extracts only the selected entries', async () => {
+        const targetDir = path.join(dir, 'selected');
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        const result = await ops.decompress(archivePath, targetDir, { select: { extensions: ['ts'], maxSize: 500 } });
+        assert.deepEqual(readdirSync(targetDir), ['src']);
+        assert.deepEqual(readdirSync(path.join(targetDir, 'src')), ['util']);
+        assert.deepEqual(result.files.map(file => file.filename), ['src/util/path.ts']);
+    });
+
+    it('throws before extracting when a pattern matches nothing', async () => {
+        const targetDir = path.join(dir, 'unmatched');
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        await assert.rejects(
+            ops.decompress(archivePath, targetDir, { select: { globs: ['docs/*.md', '*.png'] } }),
+            (error: { code: string; details: { unmatched: string[] } }) => {
+                assert.equal(error.code, ArchiveErrorCode.FILE_NOT_FOUND);
+                assert.deepEqual(error.details.unmatched, ['*.png']);
+                return true;
+            }
+        );
+        await assert.rejects(ops.decompress(archivePath, targetDir, { select: { minSize: 10000 } }), { code: ArchiveErrorCode.FILE_NOT_FOUND });
+        assert.deepEqual(readdirSync(dir).filter(name => name === 'unmatched'), []);
+    });
+});
@@ -0,0 +1,138 @@
+// test/extractionLimits.test.ts
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import { existsSync, writeFileSync } from 'fs';
+import path from 'path';
+import { ArchiveOps, ArchiveErrorCode, type ArchiveError, type FileInfo } from '../src/index.js';
+import { checkExtractionLimits, verifyExtractionLimits } from '../src/utils/extractionLimits.js';
+import { SEVEN_ZIP, SKIP_WITHOUT_7ZA, createTempDir, removeTempDir } from './helpers.js';
+
+const ARCHIVE_PATH = '/archives/test.7z';
+
+/**
+ * Creates a listed file.
+ */
+function file(filename: string, size: number, compressedSize?: number): FileInfo {
+    return { filename, size, compressedSize };
+}
+
+/**
+ * Returns what the ExtractionLimitError for a limit looks like.
+ */
+function limitError(limit: string, value: number, maxValue: number, entry?: string): object {
+    return { code: ArchiveErrorCode.LIMIT_EXCEEDED, details: { archivePath: ARCHIVE_PATH, limit, value, maxValue, entry } };
+}
+
+/**
+ * Runs 7za to add a file to an archive of a format compress does not write.
+ */
+function addWith7za(format: string, archivePath: string, sourcePath: string): void {
+    const result = spawnSync(SEVEN_ZIP, ['a', `-t${format}`, archivePath, sourcePath], { stdio: 'ignore' });
+    assert.equal(result.status, 0);
+}
+
+describe('checkExtractionLimits', () => {
+    const listing = [
+        file('small.txt', 100, 50),
+        // A solid block: only its first file reports the compressed size of the whole block
+        file('block/a.bin', 6000, 100),
+        file('block/b.bin', 4000),
+        file('empty.txt', 0),
+    ];
+
+    it('passes files within every limit', () => {
+        checkExtractionLimits(listing, listing, { maxEntries: 4, maxEntrySize: 6000, maxTotalSize: 10100, maxEntryRatio: 100, maxTotalRatio: 100 }, ARCHIVE_PATH);
+    });
+
+    for (const [limits, limit, value, entry] of [
+        [{ maxEntries: 3 }, 'maxEntries', 4, undefined],
+        [{ maxEntrySize: 5000 }, 'maxEntrySize', 6000, 'block/a.bin'],
+        [{ maxTotalSize: 10000 }, 'maxTotalSize', 10100, undefined],
+        [{ maxEntryRatio: 50 }, 'maxEntryRatio', 100, 'block/a.bin'],
+        [{ maxTotalRatio: 50 }, 'maxTotalRatio', 67.33, undefined],
+    ] as const) {
+        it(`reports ${limit}`, () => {
+            assert.throws(() => checkExtractionLimits(listing, listing, limits, ARCHIVE_PATH), limitError(limit, value, Object.values(limits)[0], entry));
+        });
+    }
+
+    it('rates a file in a solid block with the whole block', () => {
+        const selected = listing.filter(entry => entry.filename === 'block/b.bin');
+        assert.throws(() => checkExtractionLimits(listing, selected, { maxEntryRatio: 50 }, ARCHIVE_PATH), limitError('maxEntryRatio', 100, 50, 'block/b.bin'));
+        checkExtractionLimits(listing, listing.slice(0, 1), { maxEntryRatio: 50, maxTotalRatio: 50 }, ARCHIVE_PATH);
+    });
+
+    it('rates files stored in no bytes as infinitely compressed', () => {
+        const stored = [file('zero.bin', 10, 0)];
+        assert.throws(() => checkExtractionLimits(stored, stored, { maxEntryRatio: 1000 }, ARCHIVE_PATH), limitError('maxEntryRatio', Infinity, 1000, 'zero.bin'));
+    });
+
+    it('rates a single compressed stream against its size on disk', () => {
+        // Sizes inside a tar.gz are those of the tar, so they look uncompressed
+        const tarListing = [file('a.bin', 500000, 500224), file('b.bin', 500000, 500224)];
+        checkExtractionLimits(tarListing, tarListing.slice(0, 1), { maxEntryRatio: 2, maxTotalRatio: 2000 }, ARCHIVE_PATH, 1000);
+        assert.throws(() => checkExtractionLimits(tarListing, tarListing.slice(0, 1), { maxTotalRatio: 100 }, ARCHIVE_PATH, 1000), limitError('maxTotalRatio', 1000, 100));
+    });
+
+    it('turns unset and zero limits off', () => {
+        checkExtractionLimits(listing, listing, { maxEntries: 0, maxTotalRatio: 0 }, ARCHIVE_PATH);
+    });
+
+    it('rejects invalid limits', () => {
+        for (const limits of [{ maxEntries: -1 }, { maxTotalSize: NaN }, { maxEntryRatio: Infinity }]) {
+            assert.throws(() => verifyExtractionLimits(limits), { code: ArchiveErrorCode.INVALID_OPTIONS }, JSON.stringify(limits));
+        }
+    });
+});
+
+describe('extraction limits with 7za', { skip: SKIP_WITHOUT_7ZA }, () => {
+    let dir: string;
+    let sourcePath: string;
+
+    before(() => {
+        dir = createTempDir();
+        // Zeros compress about a thousand times
+        sourcePath = path.join(dir, 'zeros.bin');
+        writeFileSync(sourcePath, Buffer.alloc(4 * 1024 * 1024));
+    });
+
+    after(() => removeTempDir(dir));
+
+    /**
+     * Expects decompress to stop at maxTotalRatio before creating the target directory.
+     */
+    const assertStopped = async (ops: ArchiveOps, archivePath: string, targetDir: string): Promise<void> => {
+        await assert.rejects(ops.decompress(archivePath, targetDir, { limits: { maxTotalRatio: 100 } }), (error: ArchiveError) => {
+            assert.equal(error.code, ArchiveErrorCode.LIMIT_EXCEEDED);
+            assert.equal(error.details?.limit, 'maxTotalRatio');
+            return true;
+        });
+        assert.equal(existsSync(targetDir), false);
+    };
+
+    it('stops highly compressed archives before writing', async () => {
+        const archivePath = path.join(dir, 'zeros.7z');
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        await ops.compress([sourcePath], archivePath);
+        await assertStopped(ops, archivePath, path.join(dir, 'out-7z'));
+    });
+
+    it('rates gzip and tar.gz archives by their size on disk', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        const gzipPath = path.join(dir, 'zeros.bin.gz');
+        addWith7za('gzip', gzipPath, sourcePath);
+        await assertStopped(ops, gzipPath, path.join(dir, 'out-gz'));
+
+        const tarPath = path.join(dir, 'zeros.tar');
+        const tarGzipPath = path.join(dir, 'zeros.tar.gz');
+        addWith7za('tar', tarPath, sourcePath);
+        addWith7za('gzip', tarGzipPath, tarPath);
+        const targetDir = path.join(dir, 'out-tar.gz');
+        await assertStopped(ops, tarGzipPath, targetDir);
+
+        // The tar sizes would rate every file at about 1, so per-file ratios are not checked
+        await ops.decompress(tarGzipPath, targetDir, { limits: { maxEntryRatio: 2 } });
+        assert.ok(existsSync(path.join(targetDir, 'zeros.bin')));
+    });
+});
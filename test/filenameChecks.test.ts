@@ -0,0 +1,108 @@
+// test/filenameChecks.test.ts
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, writeFileSync } from 'fs';
+import path from 'path';
+import { ArchiveOps, ArchiveErrorCode, FilenameIssue, validateAllEntries, type FileInfo, type FilenameProblem } from '../src/index.js';
+import { SEVEN_ZIP, SKIP_WITHOUT_7ZA, createTempDir, removeTempDir } from './helpers.js';
+
+/**
+ * Entries with the given names, as a listing would return them.
+ */
+function entries(...names: string[]): FileInfo[] {
+    return names.map(filename => ({ filename, size: 0 }));
+}
+
+/**
+ * Issue and entry of each problem, in report order.
+ */
+function issues(problems: FilenameProblem[]): [FilenameIssue, string][] {
+    return problems.map(problem => [problem.issue, problem.filename]);
+}
+
+describe('validateAllEntries with filename checks', () => {
+    it('finds names Windows does not allow', () => {
+        const report = validateAllEntries(entries('docs/aux.txt', 'Com1', 'con-notes.txt', 'notes.', 'dir /a', 'a:b', 'tab\there', 'fine.txt'), 'a.zip', {});
+        assert.equal(report.valid, false);
+        assert.deepEqual(issues(report.problems), [
+            [FilenameIssue.RESERVED_NAME, 'docs/aux.txt'],
+            [FilenameIssue.RESERVED_NAME, 'Com1'],
+            [FilenameIssue.TRAILING_DOT_OR_SPACE, 'notes.'],
+            [FilenameIssue.TRAILING_DOT_OR_SPACE, 'dir /a'],
+            [FilenameIssue.ILLEGAL_CHARACTER, 'a:b'],
+            [FilenameIssue.ILLEGAL_CHARACTER, 'tab\there'],
+        ]);
+        assert.match(report.problems[5].message, /U\+0009/);
+    });
+
+    it('measures paths with the target directory', () => {
+        const name = `${'n'.repeat(100)}/${'m'.repeat(100)}`;
+        assert.equal(validateAllEntries(entries(name), 'a.zip', {}).valid, true);
+        assert.deepEqual(issues(validateAllEntries(entries(name), 'a.zip', { maxPathLength: 150 }).problems), [[FilenameIssue.PATH_TOO_LONG, name]]);
+        assert.deepEqual(issues(validateAllEntries(entries(name), 'a.zip', { targetPath: `/${'t'.repeat(100)}` }).problems), [[FilenameIssue.PATH_TOO_LONG, name]]);
+        assert.deepEqual(issues(validateAllEntries(entries('x'.repeat(256)), 'a.zip', {}).problems), [[FilenameIssue.PATH_TOO_LONG, 'x'.repeat(256)]]);
+        assert.throws(() => validateAllEntries(entries('a'), 'a.zip', { maxPathLength: 0 }), { code: ArchiveErrorCode.INVALID_OPTIONS });
+    });
+
+    it('finds names that collide on other file systems', () => {
+        const report = validateAllEntries(entries('Readme.md', 'README.md', 'caf\u00e9.txt', 'cafe\u0301.txt', 'docs/A', 'docs/a'), 'a.zip', {});
+        assert.deepEqual(issues(report.problems), [
+            [FilenameIssue.CASE_COLLISION, 'Readme.md'],
+            [FilenameIssue.CASE_COLLISION, 'README.md'],
+            [FilenameIssue.UNICODE_COLLISION, 'caf\u00e9.txt'],
+            [FilenameIssue.UNICODE_COLLISION, 'cafe\u0301.txt'],
+            [FilenameIssue.CASE_COLLISION, 'docs/A'],
+            [FilenameIssue.CASE_COLLISION, 'docs/a'],
+        ]);
+        assert.deepEqual(report.problems[0].collidesWith, ['README.md']);
+    });
+
+    it('checks only the issues asked for, and always traversal', () => {
+        const report = validateAllEntries(entries('../escape', 'aux', 'a:b'), 'a.zip', { checks: [FilenameIssue.ILLEGAL_CHARACTER] });
+        assert.deepEqual(issues(report.problems), [[FilenameIssue.TRAVERSAL, '../escape'], [FilenameIssue.ILLEGAL_CHARACTER, 'a:b']]);
+    });
+
+    it('still throws at the first traversal without options', () => {
+        assert.throws(() => validateAllEntries(entries('ok.txt', '../escape'), 'a.zip'), { code: ArchiveErrorCode.PATH_TRAVERSAL });
+        assert.equal(validateAllEntries(entries('aux', 'a:b'), 'a.zip'), undefined);
+    });
+});
+
+describe('filenameChecks with 7za', { skip: SKIP_WITHOUT_7ZA }, () => {
+    let dir: string;
+    let archivePath: string;
+
+    before(async () => {
+        dir = createTempDir();
+        for (const name of ['aux.txt', 'Notes', 'NOTES']) {
+            writeFileSync(path.join(dir, name), name);
+        }
+        archivePath = path.join(dir, 'unportable.7z');
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP });
+        await ops.compress(['aux.txt', 'Notes', 'NOTES'].map(name => path.join(dir, name)), archivePath);
+    });
+
+    after(() => removeTempDir(dir));
+
+    it('refuses unportable names before extracting', async () => {
+        const targetDir = path.join(dir, 'refused');
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        await assert.rejects(ops.decompress(archivePath, targetDir, { filenameChecks: {} }), (error: { code: string; details: { problems: FilenameProblem[] } }) => {
+            assert.equal(error.code, ArchiveErrorCode.INVALID_PATH);
+            assert.deepEqual(issues(error.details.problems).sort(), [
+                [FilenameIssue.CASE_COLLISION, 'NOTES'],
+                [FilenameIssue.CASE_COLLISION, 'Notes'],
+                [FilenameIssue.RESERVED_NAME, 'aux.txt'],
+            ]);
+            return true;
+        });
+        assert.equal(existsSync(targetDir), false);
+    });
+
+    it('extracts when the issues found are not checked', async () => {
+        const targetDir = path.join(dir, 'extracted');
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        await ops.decompress(archivePath, targetDir, { filenameChecks: { checks: [FilenameIssue.ILLEGAL_CHARACTER] } });
+        assert.equal(existsSync(path.join(targetDir, 'aux.txt')), true);
+    });
+});
@@ -0,0 +1,13 @@
+// test/fixtures/listWithPassword.ts
+// Lists an encrypted archive and prints the result as JSON: node --import tsx listWithPassword.ts <7za> <archive> <password>
+import { ArchiveOps } from '../../src/index.js';
+
+const [executablePath, archivePath, password] = process.argv.slice(2);
+const ops = new ArchiveOps({ executablePath, timeoutMs: 10000 });
+
+try {
+    const result = await ops.listEntries(archivePath, { password });
+    console.log(JSON.stringify({ isTTY: process.stdin.isTTY === true, files: result.files.map(file => file.filename) }));
+} catch (error) {
+    console.log(JSON.stringify({ isTTY: process.stdin.isTTY === true, error: (error as { code?: string }).code ?? String(error) }));
+}
@@ -0,0 +1,35 @@
+// test/helpers.ts
+import { spawnSync } from 'child_process';
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+
+//#region CONSTANTS
+
+/** 7za used by the tests; set ARCHIVE_OPS_7ZA to use another one */
+export const SEVEN_ZIP = process.env.ARCHIVE_OPS_7ZA ?? '7za';
+
+/** Skip reason for tests that run 7za, or false if it is available */
+export const SKIP_WITHOUT_7ZA: string | false = spawnSync(SEVEN_ZIP, ['i'], { stdio: 'ignore' }).error
+    ? `7za not found at '${SEVEN_ZIP}' (set ARCHIVE_OPS_7ZA)`
+    : false;
+
+//#endregion
+
+//#region PUBLIC API
+
+/**
+ * Creates an empty temporary directory.
+ */
+export function createTempDir(): string {
+    return mkdtempSync(path.join(os.tmpdir(), 'archive-ops-test-'));
+}
+
+/**
+ * Removes a temporary directory created by createTempDir.
+ */
+export function removeTempDir(dir: string): void {
+    rmSync(dir, { recursive: true, force: true });
+}
+
+//#endregion
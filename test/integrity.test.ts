@@ -0,0 +1,101 @@
+// test/integrity.test.ts
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { ArchiveOps, ArchiveFormat, CompressionLevel, EntryTestStatus } from '../src/index.js';
+import { createTestOutputParser } from '../src/utils/testParser.js';
+import { SEVEN_ZIP, SKIP_WITHOUT_7ZA, createTempDir, removeTempDir } from './helpers.js';
+
+describe('createTestOutputParser', () => {
+    it('reads tested entries and the errors that name them', () => {
+        const parser = createTestOutputParser();
+        // Chunks split lines anywhere, and progress is erased with backspaces
+        for (const chunk of ['Testing archive: s.zip\n--\nPath = s.zip\n\nT a.t', 'xt\n 50% 1\b\b\b\b\b\bT b.txt\nERROR: CRC', ' Failed : b.txt\nT c.txt']) {
+            parser.push(chunk);
+        }
+        parser.end();
+
+        assert.deepEqual(parser.entries, [
+            { filename: 'a.txt', status: EntryTestStatus.OK },
+            { filename: 'b.txt', status: EntryTestStatus.CRC_ERROR, message: 'CRC Failed' },
+            { filename: 'c.txt', status: EntryTestStatus.OK },
+        ]);
+        assert.deepEqual(parser.archiveErrors, []);
+    });
+
+    it('charges block errors to the entry tested last', () => {
+        const parser = createTestOutputParser();
+        parser.push('T a.txt\nT b.txt\nERROR: Data Error : #0\n');
+        parser.end();
+        assert.deepEqual(parser.entries.map(entry => entry.status), [EntryTestStatus.OK, EntryTestStatus.DATA_ERROR]);
+    });
+
+    it('classifies the reasons 7za gives', () => {
+        const parser = createTestOutputParser();
+        parser.push([
+            'T a', 'ERROR: Wrong password : a',
+            'T b', 'ERROR: Unsupported Method : b',
+            'T c', 'ERROR: Headers Error : c',
+        ].join('\n'));
+        parser.end();
+        assert.deepEqual(parser.entries.map(entry => entry.status), [
+            EntryTestStatus.WRONG_PASSWORD,
+            EntryTestStatus.UNSUPPORTED_METHOD,
+            EntryTestStatus.ERROR,
+        ]);
+    });
+
+    it('keeps errors that name no entry for the archive', () => {
+        const parser = createTestOutputParser();
+        parser.push('ERROR: /data/s.7z\nCan not open encrypted archive. Wrong password?\n\nT later.txt\n');
+        parser.end();
+        assert.deepEqual(parser.archiveErrors, ['ERROR: /data/s.7z', 'Can not open encrypted archive. Wrong password?']);
+        assert.deepEqual(parser.entries, [{ filename: 'later.txt', status: EntryTestStatus.OK }]);
+    });
+});
+
+describe('test with 7za', { skip: SKIP_WITHOUT_7ZA }, () => {
+    let dir: string;
+    let archivePath: string;
+
+    before(async () => {
+        dir = createTempDir();
+        writeFileSync(path.join(dir, 'a.txt'), 'A'.repeat(64));
+        writeFileSync(path.join(dir, 'b.txt'), 'B'.repeat(64));
+        // Stored, so the content of b.txt can be damaged in place
+        archivePath = path.join(dir, 'stored.zip');
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP });
+        await ops.compress([path.join(dir, 'a.txt'), path.join(dir, 'b.txt')], archivePath, {
+            format: ArchiveFormat.ZIP,
+            level: CompressionLevel.STORE,
+        });
+    });
+
+    after(() => removeTempDir(dir));
+
+    it('reports every entry of a sound archive as OK', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        const result = await ops.test(archivePath);
+        assert.equal(result.success, true);
+        assert.deepEqual(result.tests, [
+            { filename: 'a.txt', status: EntryTestStatus.OK },
+            { filename: 'b.txt', status: EntryTestStatus.OK },
+        ]);
+    });
+
+    it('reports the damaged entry without throwing', async () => {
+        const damagedPath = path.join(dir, 'damaged.zip');
+        const content = readFileSync(archivePath);
+        content.fill('X', content.indexOf('BBBB'), content.indexOf('BBBB') + 4);
+        writeFileSync(damagedPath, content);
+
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        const result = await ops.test(damagedPath);
+        assert.equal(result.success, false);
+        assert.deepEqual(result.tests, [
+            { filename: 'a.txt', status: EntryTestStatus.OK },
+            { filename: 'b.txt', status: EntryTestStatus.CRC_ERROR, message: 'CRC Failed' },
+        ]);
+    });
+});
@@ -0,0 +1,78 @@
+// test/links.test.ts
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, symlinkSync, writeFileSync } from 'fs';
+import path from 'path';
+import { ArchiveOps, ArchiveErrorCode, EntryKind, type FileInfo } from '../src/index.js';
+import { SEVEN_ZIP, SKIP_WITHOUT_7ZA, createTempDir, removeTempDir } from './helpers.js';
+
+const SKIP_WITHOUT_SYMLINKS = process.platform === 'win32' ? 'needs symbolic links' : false;
+
+/**
+ * Returns the symbolic link entries of a listing.
+ */
+function symlinks(files: FileInfo[]): FileInfo[] {
+    return files.filter(file => file.kind === EntryKind.SYMLINK);
+}
+
+describe('links in listings', { skip: SKIP_WITHOUT_7ZA || SKIP_WITHOUT_SYMLINKS }, () => {
+    let dir: string;
+    let archivePath: string;
+    let escapingPath: string;
+    let encryptedPath: string;
+
+    before(async () => {
+        dir = createTempDir();
+        // p7zip keeps symbolic links it finds in a directory, but follows those named as sources
+        const linksDir = path.join(dir, 'links');
+        mkdirSync(linksDir);
+        writeFileSync(path.join(linksDir, 'target.txt'), 'target');
+        symlinkSync('target.txt', path.join(linksDir, 'link'));
+        const escapingDir = path.join(dir, 'escaping');
+        mkdirSync(escapingDir);
+        symlinkSync('../..', path.join(escapingDir, 'escape'));
+
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP });
+        archivePath = path.join(dir, 'links.7z');
+        await ops.compress([linksDir], archivePath);
+        escapingPath = path.join(dir, 'escaping.7z');
+        await ops.compress([escapingDir], escapingPath);
+        encryptedPath = path.join(dir, 'encrypted.7z');
+        await ops.compress([linksDir], encryptedPath, { encryption: { password: 'secret' } });
+    });
+
+    after(() => removeTempDir(dir));
+
+    it('reads link targets only when asked', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        const plain = await ops.listEntries(archivePath);
+        assert.deepEqual(symlinks(plain.files).map(file => [file.filename, file.linkTarget]), [['links/link', undefined]]);
+
+        const withTargets = await ops.listEntries(archivePath, { linkTargets: true });
+        assert.deepEqual(symlinks(withTargets.files).map(file => [file.filename, file.linkTarget]), [['links/link', 'target.txt']]);
+    });
+
+    it('leaves link targets out of streamed listings', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        const files: FileInfo[] = [];
+        for await (const file of ops.listEntriesStream(archivePath, { linkTargets: true })) {
+            files.push(file);
+        }
+        assert.deepEqual(symlinks(files).map(file => [file.filename, file.linkTarget]), [['links/link', undefined]]);
+    });
+
+    it('reports encrypted entries before reading link targets', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        await assert.rejects(ops.listEntries(encryptedPath, { linkTargets: true }), { code: ArchiveErrorCode.ENCRYPTED_ARCHIVE });
+
+        const result = await ops.listEntries(encryptedPath, { linkTargets: true, password: 'secret' });
+        assert.deepEqual(symlinks(result.files).map(file => file.linkTarget), ['target.txt']);
+    });
+
+    it('checks link targets when extracting', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        const targetDir = path.join(dir, 'escaped');
+        await assert.rejects(ops.decompress(escapingPath, targetDir), { code: ArchiveErrorCode.PATH_TRAVERSAL });
+        assert.equal(existsSync(targetDir), false);
+    });
+});
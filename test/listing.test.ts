@@ -0,0 +1,125 @@
+// test/listing.test.ts
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { chmodSync, mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { ArchiveOps, ArchiveFormat, EntryKind, type FileInfo } from '../src/index.js';
+import { parseSltString } from '../src/utils/sltParser.js';
+import { SEVEN_ZIP, SKIP_WITHOUT_7ZA, createTempDir, removeTempDir } from './helpers.js';
+
+/** -slt listing of a 7z archive with an empty folder and a read-only file */
+const SEVEN_Z_LISTING = [
+    '----------',
+    'Path = empty',
+    'Size = 0',
+    'Packed Size = 0',
+    'Modified = 2024-01-15 10:30:00',
+    'Attributes = D_ drwxr-xr-x',
+    'CRC = ',
+    'Encrypted = -',
+    'Method = ',
+    'Block = ',
+    '',
+    'Path = a.txt',
+    'Size = 3',
+    'Packed Size = 7',
+    'Modified = 2024-01-15 10:30:00',
+    'Attributes = RA_ -r--r--r--',
+    'CRC = ED6F7A7A',
+    'Encrypted = -',
+    'Method = LZMA2:12',
+    'Block = 0',
+    '',
+].join('\n');
+
+/**
+ * Parses a single detailed entry with the given fields.
+ */
+function parseEntry(fields: Record<string, string>): FileInfo {
+    const lines = Object.entries({ Path: 'x', ...fields }).map(([key, value]) => `${key} = ${value}`);
+    return parseSltString(['----------', ...lines, ''].join('\n'), { detailed: true })[0];
+}
+
+describe('detailed -slt parsing', () => {
+    it('leaves out directories and extra fields by default', () => {
+        const files = parseSltString(SEVEN_Z_LISTING);
+        assert.deepEqual(files.map(file => file.filename), ['a.txt']);
+        assert.equal(files[0].method, undefined);
+        assert.equal(files[0].isDirectory, undefined);
+    });
+
+    it('keeps directories and every field when detailed', () => {
+        const [folder, file] = parseSltString(SEVEN_Z_LISTING, { detailed: true });
+        assert.equal(folder.filename, 'empty');
+        assert.equal(folder.isDirectory, true);
+        assert.equal(folder.kind, EntryKind.DIRECTORY);
+        assert.equal(folder.unixMode, 0o755);
+        assert.equal(folder.method, undefined);
+        assert.equal(folder.block, undefined);
+
+        assert.equal(file.isDirectory, false);
+        assert.equal(file.attributes, 'RA_ -r--r--r--');
+        assert.equal(file.unixMode, 0o444);
+        assert.equal(file.readOnly, true);
+        assert.equal(file.hidden, false);
+        assert.equal(file.method, 'LZMA2:12');
+        assert.equal(file.block, 0);
+    });
+
+    it('decodes Windows letters, Unix permissions and tar modes', () => {
+        const windows = parseEntry({ Attributes: 'HA' });
+        assert.deepEqual([windows.unixMode, windows.readOnly, windows.hidden], [undefined, false, true]);
+        assert.equal(parseEntry({ Attributes: '_ -rwsr-xr-x' }).unixMode, 0o4755);
+        assert.equal(parseEntry({ Attributes: '_ drwxrwxrwt' }).unixMode, 0o1777);
+        assert.equal(parseEntry({ Mode: '0rw-r--r--' }).unixMode, 0o644);
+        assert.equal(parseEntry({ Mode: '0rw-r--r--' }).attributes, '0rw-r--r--');
+    });
+
+    it('reads ZIP host OS, comments and times', () => {
+        const entry = parseEntry({
+            Folder: '-',
+            Created: '2024-01-15 10:30:00',
+            Accessed: '2024-02-01 08:00:00',
+            Comment: 'quarterly figures',
+            'Host OS': 'FAT',
+        });
+        assert.equal(entry.hostOS, 'FAT');
+        assert.equal(entry.comment, 'quarterly figures');
+        assert.ok(entry.created instanceof Date);
+        assert.ok(entry.accessed instanceof Date);
+        assert.equal(parseEntry({ Comment: '' }).comment, undefined);
+    });
+});
+
+describe('detailed listings with 7za', { skip: SKIP_WITHOUT_7ZA }, () => {
+    let dir: string;
+    let sources: string[];
+
+    before(() => {
+        dir = createTempDir();
+        mkdirSync(path.join(dir, 'empty'));
+        writeFileSync(path.join(dir, 'a.txt'), 'abc');
+        chmodSync(path.join(dir, 'a.txt'), 0o444);
+        sources = [path.join(dir, 'a.txt'), path.join(dir, 'empty')];
+    });
+
+    after(() => removeTempDir(dir));
+
+    for (const format of [ArchiveFormat.SEVEN_ZIP, ArchiveFormat.ZIP]) {
+        it(`lists empty folders and permissions of ${format} archives`, async () => {
+            const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+            const archivePath = path.join(dir, `detailed.${format}`);
+            await ops.compress(sources, archivePath, { format });
+
+            const plain = await ops.listEntries(archivePath);
+            assert.deepEqual(plain.files.map(file => file.filename), ['a.txt']);
+
+            const detailed = await ops.listEntries(archivePath, { detailed: true });
+            const byName = new Map(detailed.files.map(file => [file.filename, file]));
+            assert.equal(byName.get('empty')?.isDirectory, true);
+            assert.equal(byName.get('a.txt')?.unixMode, 0o444);
+            assert.equal(byName.get('a.txt')?.readOnly, true);
+            assert.ok(byName.get('a.txt')?.method);
+        });
+    }
+});
@@ -0,0 +1,58 @@
+// test/password.test.ts
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import { writeFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ArchiveOps } from '../src/index.js';
+import { SEVEN_ZIP, SKIP_WITHOUT_7ZA, createTempDir, removeTempDir } from './helpers.js';
+
+const PASSWORD = 'secret pass';
+const FIXTURE = fileURLToPath(new URL('./fixtures/listWithPassword.ts', import.meta.url));
+
+/** script(1) runs a command under a new pseudo-terminal (util-linux syntax) */
+const SKIP_WITHOUT_SCRIPT = process.platform !== 'linux' || spawnSync('script', ['--version'], { stdio: 'ignore' }).status !== 0
+    ? 'needs util-linux script(1)'
+    : false;
+
+/**
+ * Quotes a value for sh.
+ */
+function shellQuote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+describe('passwords', { skip: SKIP_WITHOUT_7ZA }, () => {
+    let dir: string;
+    let archivePath: string;
+
+    before(async () => {
+        dir = createTempDir();
+        writeFileSync(path.join(dir, 'a.txt'), 'hello');
+        archivePath = path.join(dir, 'secure.7z');
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP });
+        await ops.compress([path.join(dir, 'a.txt')], archivePath, { encryption: { password: PASSWORD, encryptHeaders: true } });
+    });
+
+    after(() => removeTempDir(dir));
+
+    it('lists an archive with encrypted headers', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        const result = await ops.listEntries(archivePath, { password: PASSWORD });
+        assert.deepEqual(result.files.map(file => file.filename), ['a.txt']);
+    });
+
+    it('answers the password prompt when the caller has a terminal', { skip: SKIP_WITHOUT_SCRIPT }, () => {
+        const command = [process.execPath, '--import', 'tsx', FIXTURE, SEVEN_ZIP, archivePath, PASSWORD].map(shellQuote).join(' ');
+        const run = spawnSync('script', ['-qec', command, '/dev/null'], {
+            stdio: ['ignore', 'pipe', 'pipe'],
+            encoding: 'utf8',
+            timeout: 30000,
+        });
+
+        const output = JSON.parse(run.stdout.trim().split(/\r?\n/).pop() ?? '{}');
+        assert.equal(output.isTTY, true, 'fixture should run under a terminal');
+        assert.deepEqual(output, { isTTY: true, files: ['a.txt'] });
+    });
+});
@@ -0,0 +1,123 @@
+// test/progress.test.ts
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'fs';
+import path from 'path';
+import { ArchiveOps, ProgressPhase, type ProgressEvent } from '../src/index.js';
+import { createProgressTracker, createScanSummaryReader, parseProgressOutput } from '../src/utils/progress.js';
+import { SEVEN_ZIP, SKIP_WITHOUT_7ZA, createTempDir, removeTempDir } from './helpers.js';
+
+describe('parseProgressOutput', () => {
+    it('reads percent, file count and entry', () => {
+        assert.deepEqual(parseProgressOutput(' 45% 12 + folder/file name.txt'), { percent: 45, files: 12, entry: 'folder/file name.txt' });
+        assert.deepEqual(parseProgressOutput('  7% - old.txt'), { percent: 7, files: undefined, entry: 'old.txt' });
+        assert.deepEqual(parseProgressOutput('100%'), { percent: 100, files: undefined, entry: undefined });
+    });
+
+    it('takes the last update of a chunk', () => {
+        const chunk = '  5% 1 + a.txt\b\b\b\b\b\b\b\b\b\b\b\b\b\b 60% 2 + b.txt\b\b\b\b\b\b\b\b\b\b\b\b\b\b';
+        assert.deepEqual(parseProgressOutput(chunk), { percent: 60, files: 2, entry: 'b.txt' });
+    });
+
+    it('ignores other output', () => {
+        assert.equal(parseProgressOutput('Scanning the drive:\n1 file, 4 bytes (1 KiB)\n'), null);
+        assert.equal(parseProgressOutput(''), null);
+    });
+});
+
+describe('createProgressTracker', () => {
+    it('estimates bytes and time left from the percent and the totals', () => {
+        const messages: [number | null, string][] = [];
+        const tracker = createProgressTracker((progress, message) => messages.push([progress, message]));
+        tracker.setPhase(ProgressPhase.EXTRACTING, { bytesTotal: 1000, filesTotal: 4 }, percent => `Extracting...${percent}%`);
+        tracker.push(' 25% 1 - a.txt');
+
+        const { current } = tracker;
+        assert.equal(current.phase, ProgressPhase.EXTRACTING);
+        assert.equal(current.percent, 25);
+        assert.equal(current.bytesProcessed, 250);
+        assert.equal(current.filesProcessed, 1);
+        assert.equal(current.filesTotal, 4);
+        assert.equal(current.currentEntry, 'a.txt');
+
+        // The legacy callback only hears about changed messages
+        tracker.push(' 25% 1 - a.txt');
+        tracker.complete('Done.');
+        assert.deepEqual(messages, [[25, 'Extracting...25%'], [100, 'Done.']]);
+        assert.equal(tracker.current.percent, 100);
+        assert.equal(tracker.current.etaSeconds, 0);
+        assert.equal(tracker.current.filesProcessed, 4);
+    });
+
+    it('counts entries where 7za reports no progress', () => {
+        const events: ProgressEvent[] = [];
+        const tracker = createProgressTracker(undefined, event => events.push(event));
+        tracker.setPhase(ProgressPhase.LISTING);
+        tracker.countEntry('a.txt');
+        tracker.countEntry('b.txt');
+        assert.equal(tracker.current.filesProcessed, 2);
+        assert.equal(tracker.current.currentEntry, 'b.txt');
+        assert.equal(tracker.current.percent, null);
+        // Phase starts are always sent, whatever the throttling
+        assert.deepEqual(events[0], { phase: ProgressPhase.LISTING, percent: null, elapsedSeconds: events[0].elapsedSeconds });
+    });
+
+    it('takes totals that arrive after the phase started', () => {
+        const tracker = createProgressTracker();
+        tracker.setPhase(ProgressPhase.COMPRESSING);
+        tracker.setTotals({ bytesTotal: 200, filesTotal: 2 });
+        tracker.push(' 50%');
+        assert.equal(tracker.current.bytesProcessed, 100);
+        assert.equal(tracker.current.filesTotal, 2);
+    });
+});
+
+describe('createScanSummaryReader', () => {
+    it('reads the totals once, across chunks', () => {
+        const read = createScanSummaryReader();
+        assert.equal(read('\nScanning the drive:\n2 folders, 3 fi'), null);
+        assert.deepEqual(read('les, 4096 bytes (4 KiB)\n\nCreating archive: a.7z\n'), { filesTotal: 3, bytesTotal: 4096 });
+        assert.equal(read('Scanning the drive:\n1 file, 1 bytes\n'), null);
+    });
+
+    it('gives up once 7za starts adding without a summary', () => {
+        const read = createScanSummaryReader();
+        assert.equal(read('\nCreating archive: a.7z\n'), null);
+        assert.equal(read('Scanning the drive:\n1 file, 1 bytes\n'), null);
+    });
+});
+
+describe('progress with 7za', { skip: SKIP_WITHOUT_7ZA }, () => {
+    let dir: string;
+
+    before(() => {
+        dir = createTempDir();
+        writeFileSync(path.join(dir, 'a.txt'), 'a'.repeat(3000));
+        writeFileSync(path.join(dir, 'b.txt'), 'b'.repeat(1000));
+    });
+
+    after(() => removeTempDir(dir));
+
+    it('reports phases and totals of compress and decompress', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        const archivePath = path.join(dir, 'progress.7z');
+        const compressEvents: ProgressEvent[] = [];
+        await ops.compress([path.join(dir, 'a.txt'), path.join(dir, 'b.txt')], archivePath, {
+            onProgressEvent: event => compressEvents.push(event),
+        });
+        const compressed = compressEvents[compressEvents.length - 1];
+        assert.equal(compressed.phase, ProgressPhase.COMPRESSING);
+        assert.equal(compressed.percent, 100);
+        assert.equal(compressed.bytesTotal, 4000);
+        assert.equal(compressed.filesTotal, 2);
+
+        const decompressEvents: ProgressEvent[] = [];
+        await ops.decompress(archivePath, path.join(dir, 'out'), { onProgressEvent: event => decompressEvents.push(event) });
+        const phases = [...new Set(decompressEvents.map(event => event.phase))];
+        assert.deepEqual(phases, [ProgressPhase.LISTING, ProgressPhase.VALIDATING, ProgressPhase.EXTRACTING]);
+        const extracted = decompressEvents[decompressEvents.length - 1];
+        assert.equal(extracted.percent, 100);
+        assert.equal(extracted.bytesTotal, 4000);
+        assert.equal(extracted.filesProcessed, 2);
+    });
+});
@@ -0,0 +1,100 @@
+// test/remap.test.ts
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { ArchiveOps, ArchiveErrorCode } from '../src/index.js';
+import { SEVEN_ZIP, SKIP_WITHOUT_7ZA, createTempDir, removeTempDir } from './helpers.js';
+
+/**
+ * Writes files (relative path -> content) below a directory.
+ */
+function writeTree(dir: string, files: Record<string, string>): void {
+    for (const [relativePath, content] of Object.entries(files)) {
+        mkdirSync(path.dirname(path.join(dir, relativePath)), { recursive: true });
+        writeFileSync(path.join(dir, relativePath), content);
+    }
+}
+
+/**
+ * Reads all files below a directory as relative path -> content.
+ */
+function readTree(dir: string, prefix: string = ''): Record<string, string> {
+    const files: Record<string, string> = {};
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            Object.assign(files, readTree(fullPath, `${prefix}${entry.name}/`));
+        } else {
+            files[`${prefix}${entry.name}`] = readFileSync(fullPath, 'utf8');
+        }
+    }
+    return files;
+}
+
+describe('stripComponents and flatten with 7za', { skip: SKIP_WITHOUT_7ZA }, () => {
+    let dir: string;
+    let archivePath: string;
+    let collidingPath: string;
+
+    before(async () => {
+        dir = createTempDir();
+        writeTree(path.join(dir, 'source'), {
+            'project/README.md': 'readme',
+            'project/src/a.txt': 'src a',
+            'project/src/lib/b.txt': 'lib b',
+            'other/docs/a.txt': 'docs a',
+        });
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP });
+        archivePath = path.join(dir, 'project.7z');
+        await ops.compress([path.join(dir, 'source', 'project')], archivePath);
+        collidingPath = path.join(dir, 'colliding.7z');
+        await ops.compress([path.join(dir, 'source', 'project'), path.join(dir, 'source', 'other')], collidingPath);
+    });
+
+    after(() => removeTempDir(dir));
+
+    it('strips leading folders', async () => {
+        const targetDir = path.join(dir, 'stripped');
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        const result = await ops.decompress(archivePath, targetDir, { stripComponents: 1 });
+        assert.deepEqual(readTree(targetDir), { 'README.md': 'readme', 'src/a.txt': 'src a', 'src/lib/b.txt': 'lib b' });
+        assert.deepEqual(
+            result.files.filter(file => !file.isDirectory).map(file => file.extractedPath).sort(),
+            ['README.md', 'src/a.txt', 'src/lib/b.txt'].map(name => path.join(targetDir, name))
+        );
+        assert.deepEqual(readdirSync(dir).filter(name => name.startsWith('.')), []);
+    });
+
+    it('skips entries with no path left', async () => {
+        const targetDir = path.join(dir, 'deep');
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        await ops.decompress(archivePath, targetDir, { stripComponents: 2 });
+        assert.deepEqual(readTree(targetDir), { 'a.txt': 'src a', 'lib/b.txt': 'lib b' });
+    });
+
+    it('puts every file directly in the target when flattening', async () => {
+        const targetDir = path.join(dir, 'flat');
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        await ops.decompress(archivePath, targetDir, { flatten: true });
+        assert.deepEqual(readTree(targetDir), { 'README.md': 'readme', 'a.txt': 'src a', 'b.txt': 'lib b' });
+    });
+
+    it('refuses entries that would land on the same path', async () => {
+        const targetDir = path.join(dir, 'collision');
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        await assert.rejects(ops.decompress(collidingPath, targetDir, { flatten: true }), (error: { code: string; details: { collisions: Record<string, string[]> } }) => {
+            assert.equal(error.code, ArchiveErrorCode.INVALID_OPTIONS);
+            assert.deepEqual(error.details.collisions['a.txt'].sort(), ['other/docs/a.txt', 'project/src/a.txt']);
+            return true;
+        });
+        assert.deepEqual(readdirSync(dir).filter(name => name === 'collision' || name.startsWith('.')), []);
+    });
+
+    it('refuses to strip every entry away, and invalid counts', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        await assert.rejects(ops.decompress(archivePath, path.join(dir, 'none'), { stripComponents: 4 }), { code: ArchiveErrorCode.INVALID_OPTIONS });
+        await assert.rejects(ops.decompress(archivePath, path.join(dir, 'none'), { stripComponents: -1 }), { code: ArchiveErrorCode.INVALID_OPTIONS });
+        await assert.rejects(ops.decompress(archivePath, path.join(dir, 'none'), { stripComponents: 1.5 }), { code: ArchiveErrorCode.INVALID_OPTIONS });
+    });
+});
@@ -0,0 +1,133 @@
+// test/sourceFilter.test.ts
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { ArchiveOps, ArchiveErrorCode } from '../src/index.js';
+import { createGlobMatcher, globToRegExp } from '../src/utils/glob.js';
+import { hasSourceFilter, selectSources, type SourceRoot } from '../src/utils/sourceFilter.js';
+import { SEVEN_ZIP, SKIP_WITHOUT_7ZA, createTempDir, removeTempDir } from './helpers.js';
+
+/** Files below the 'photos' source directory */
+const PHOTOS = {
+    'a.jpg': 'jpg a',
+    'notes.txt': 'notes',
+    '.DS_Store': 'metadata',
+    'Thumbs.db': 'thumbnails',
+    'raw/b.jpg': 'jpg b',
+    'raw/b.tmp': 'temporary',
+    'cache/c.jpg': 'cached',
+    '.hidden/d.jpg': 'hidden',
+};
+
+describe('globs', () => {
+    it('matches within one segment, across segments and single characters', () => {
+        const matches = (pattern: string, value: string): boolean => globToRegExp(pattern, false).test(value);
+        assert.ok(matches('*.jpg', 'a.jpg'));
+        assert.ok(!matches('*.jpg', 'raw/a.jpg'));
+        assert.ok(matches('photos/**', 'photos/raw/a.jpg'));
+        assert.ok(matches('**/a.jpg', 'a.jpg'));
+        assert.ok(matches('**/a.jpg', 'x/y/a.jpg'));
+        assert.ok(matches('file?.txt', 'file1.txt'));
+        assert.ok(!matches('file?.txt', 'file10.txt'));
+        assert.ok(matches('[ab].txt', 'b.txt'));
+        assert.ok(!matches('[!ab].txt', 'b.txt'));
+        assert.ok(matches('a+(b).txt', 'a+(b).txt'));
+        assert.ok(!matches('*.JPG', 'a.jpg'));
+        assert.ok(globToRegExp('*.JPG', true).test('a.jpg'));
+    });
+
+    it('matches names at any depth unless the pattern has a /', () => {
+        const matcher = createGlobMatcher(['*.tmp', 'photos/cache/**', './docs/*.md']);
+        assert.ok(matcher('photos/raw/b.tmp'));
+        assert.ok(matcher('photos/cache/c.jpg'));
+        assert.ok(matcher('docs\\readme.md'));
+        assert.ok(!matcher('other/cache/c.jpg'));
+        assert.ok(!matcher('docs/sub/readme.md'));
+    });
+});
+
+describe('selectSources', () => {
+    let dir: string;
+    let roots: SourceRoot[];
+
+    before(() => {
+        dir = createTempDir();
+        for (const [relativePath, content] of Object.entries(PHOTOS)) {
+            mkdirSync(path.dirname(path.join(dir, 'photos', relativePath)), { recursive: true });
+            writeFileSync(path.join(dir, 'photos', relativePath), content);
+        }
+        roots = [{ fullPath: path.join(dir, 'photos'), storedName: 'photos', entryName: 'photos' }];
+    });
+
+    after(() => removeTempDir(dir));
+
+    it('needs a filter only for options that leave something out', () => {
+        assert.equal(hasSourceFilter({}), false);
+        assert.equal(hasSourceFilter({ include: [], recursive: true, skipHidden: false }), false);
+        assert.equal(hasSourceFilter({ exclude: ['*.tmp'] }), true);
+        assert.equal(hasSourceFilter({ recursive: false }), true);
+    });
+
+    it('excludes matching files and directories', async () => {
+        const selection = await selectSources(roots, { exclude: ['*.tmp', 'photos/cache'] });
+        assert.deepEqual(selection.excluded.sort(), ['photos/cache', 'photos/raw/b.tmp']);
+        assert.equal(selection.totals.filesTotal, 6);
+    });
+
+    it('keeps only included files, and drops directories left empty', async () => {
+        const selection = await selectSources(roots, { include: ['*.jpg'], exclude: ['.hidden'] });
+        assert.deepEqual(selection.excluded.sort(), ['photos/.DS_Store', 'photos/.hidden', 'photos/Thumbs.db', 'photos/notes.txt', 'photos/raw/b.tmp']);
+        assert.deepEqual(selection.totals, { filesTotal: 3, bytesTotal: 'jpg a'.length + 'jpg b'.length + 'cached'.length });
+    });
+
+    it('leaves out subdirectories and hidden names', async () => {
+        const selection = await selectSources(roots, { recursive: false, skipHidden: true });
+        assert.deepEqual(selection.excluded.sort(), ['photos/.DS_Store', 'photos/.hidden', 'photos/Thumbs.db', 'photos/cache', 'photos/raw']);
+        assert.equal(selection.totals.filesTotal, 2);
+    });
+
+    it('drops sources with nothing left', async () => {
+        const selection = await selectSources(roots, { include: ['*.png'] });
+        assert.deepEqual(selection.sources, []);
+    });
+});
+
+describe('compress filters with 7za', { skip: SKIP_WITHOUT_7ZA }, () => {
+    let dir: string;
+    let photosDir: string;
+
+    before(() => {
+        dir = createTempDir();
+        photosDir = path.join(dir, 'photos');
+        for (const [relativePath, content] of Object.entries(PHOTOS)) {
+            mkdirSync(path.dirname(path.join(photosDir, relativePath)), { recursive: true });
+            writeFileSync(path.join(photosDir, relativePath), content);
+        }
+    });
+
+    after(() => removeTempDir(dir));
+
+    it('adds only the files the filters keep', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        const archivePath = path.join(dir, 'filtered.7z');
+        await ops.compress([photosDir], archivePath, { include: ['*.jpg'], exclude: ['cache'], skipHidden: true });
+
+        const result = await ops.listEntries(archivePath);
+        assert.deepEqual(result.files.map(file => file.filename).sort(), ['photos/a.jpg', 'photos/raw/b.jpg']);
+    });
+
+    it('adds only the top level without recursion', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        const archivePath = path.join(dir, 'flat.7z');
+        await ops.compress([photosDir], archivePath, { recursive: false });
+
+        const result = await ops.listEntries(archivePath);
+        assert.deepEqual(result.files.map(file => file.filename).sort(), ['photos/.DS_Store', 'photos/Thumbs.db', 'photos/a.jpg', 'photos/notes.txt']);
+    });
+
+    it('throws when the filters leave nothing', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        await assert.rejects(ops.compress([photosDir], path.join(dir, 'empty.7z'), { include: ['*.png'] }), { code: ArchiveErrorCode.FILE_NOT_FOUND });
+    });
+});
@@ -0,0 +1,160 @@
+// test/staging.test.ts
+import { describe, it, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { ArchiveOps, ArchiveErrorCode, ConflictPolicy } from '../src/index.js';
+import { commitStagedFiles, findFreePath, findIncompleteFiles } from '../src/utils/staging.js';
+import { SEVEN_ZIP, SKIP_WITHOUT_7ZA, createTempDir, removeTempDir } from './helpers.js';
+
+/**
+ * Writes files (relative path -> content) below a directory.
+ */
+function writeTree(dir: string, files: Record<string, string>): void {
+    for (const [relativePath, content] of Object.entries(files)) {
+        mkdirSync(path.dirname(path.join(dir, relativePath)), { recursive: true });
+        writeFileSync(path.join(dir, relativePath), content);
+    }
+}
+
+/**
+ * Reads all files below a directory as relative path -> content.
+ */
+function readTree(dir: string, prefix: string = ''): Record<string, string> {
+    const files: Record<string, string> = {};
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            Object.assign(files, readTree(fullPath, `${prefix}${entry.name}/`));
+        } else {
+            files[`${prefix}${entry.name}`] = readFileSync(fullPath, 'utf8');
+        }
+    }
+    return files;
+}
+
+describe('commitStagedFiles', () => {
+    let dir: string;
+    let stagingDir: string;
+    let targetDir: string;
+    let backupDir: string;
+
+    beforeEach(() => {
+        dir = createTempDir();
+        stagingDir = path.join(dir, 'staging');
+        targetDir = path.join(dir, 'target');
+        backupDir = path.join(dir, 'backup');
+        writeTree(stagingDir, { 'new/a.txt': 'new a', 'docs/b.txt': 'staged b', 'docs/c.txt': 'staged c' });
+        writeTree(targetDir, { 'docs/b.txt': 'existing b', 'keep.txt': 'keep' });
+    });
+
+    afterEach(() => removeTempDir(dir));
+
+    it('merges directories and replaces existing files', async () => {
+        const redirected = await commitStagedFiles(stagingDir, targetDir, backupDir, ConflictPolicy.OVERWRITE, () => {});
+        assert.deepEqual(redirected, new Map());
+        assert.deepEqual(readTree(targetDir), { 'docs/b.txt': 'staged b', 'docs/c.txt': 'staged c', 'keep.txt': 'keep', 'new/a.txt': 'new a' });
+    });
+
+    it('keeps existing files', async () => {
+        const skipped = await commitStagedFiles(stagingDir, targetDir, backupDir, ConflictPolicy.SKIP, () => {});
+        assert.deepEqual(skipped, new Map([[path.join(targetDir, 'docs/b.txt'), null]]));
+        assert.equal(readFileSync(path.join(targetDir, 'docs/b.txt'), 'utf8'), 'existing b');
+    });
+
+    it('moves staged files in under free names', async () => {
+        const renamed = await commitStagedFiles(stagingDir, targetDir, backupDir, ConflictPolicy.RENAME, () => {});
+        const renamedPath = path.join(targetDir, 'docs/b_1.txt');
+        assert.deepEqual(renamed, new Map([[path.join(targetDir, 'docs/b.txt'), renamedPath]]));
+        assert.equal(readFileSync(renamedPath, 'utf8'), 'staged b');
+        assert.equal(readFileSync(path.join(targetDir, 'docs/b.txt'), 'utf8'), 'existing b');
+    });
+
+    it('undoes every change when stopped', async () => {
+        const before = readTree(targetDir);
+        let changes = 0;
+        await assert.rejects(commitStagedFiles(stagingDir, targetDir, backupDir, ConflictPolicy.OVERWRITE, (targetPath) => {
+            // Stop at c.txt, once other changes were made
+            if (++changes > 1 && targetPath.endsWith('c.txt')) {
+                throw new Error('stopped');
+            }
+        }), /stopped/);
+        assert.deepEqual(readTree(targetDir), before);
+    });
+
+    it('refuses to replace a directory with a file, and undoes the rest', async () => {
+        writeTree(targetDir, { 'new/a.txt/inner.txt': 'a directory in the way' });
+        const before = readTree(targetDir);
+        await assert.rejects(
+            commitStagedFiles(stagingDir, targetDir, backupDir, ConflictPolicy.OVERWRITE, () => {}),
+            { code: ArchiveErrorCode.INVALID_PATH }
+        );
+        assert.deepEqual(readTree(targetDir), before);
+    });
+});
+
+describe('staging checks', () => {
+    let dir: string;
+
+    before(() => {
+        dir = createTempDir();
+        writeTree(dir, { 'a.txt': 'four', 'b.txt': 'two', 'b_1.txt': '' });
+    });
+
+    after(() => removeTempDir(dir));
+
+    it('finds missing and incomplete files', async () => {
+        const incomplete = await findIncompleteFiles(dir, [
+            { filename: 'a.txt', size: 4 },
+            { filename: 'b.txt', size: 5 },
+            { filename: 'gone.txt', size: 0 },
+        ]);
+        assert.deepEqual(incomplete, ['b.txt', 'gone.txt']);
+    });
+
+    it('finds the first free name', async () => {
+        assert.equal(await findFreePath(path.join(dir, 'a.txt')), path.join(dir, 'a_1.txt'));
+        assert.equal(await findFreePath(path.join(dir, 'b.txt')), path.join(dir, 'b_2.txt'));
+        assert.equal(await findFreePath(path.join(dir, 'a.txt'), new Set([path.join(dir, 'a_1.txt')])), path.join(dir, 'a_2.txt'));
+    });
+});
+
+describe('staged extraction with 7za', { skip: SKIP_WITHOUT_7ZA }, () => {
+    let dir: string;
+    let archivePath: string;
+
+    before(async () => {
+        dir = createTempDir();
+        const sourceDir = path.join(dir, 'source');
+        writeTree(sourceDir, { 'docs/a.txt': 'archived a', 'docs/b.txt': 'archived b', 'z.txt': 'archived z' });
+        archivePath = path.join(dir, 'staged.7z');
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP });
+        await ops.compress([path.join(sourceDir, 'docs'), path.join(sourceDir, 'z.txt')], archivePath);
+    });
+
+    after(() => removeTempDir(dir));
+
+    it('moves files into place and leaves nothing behind', async () => {
+        const targetDir = path.join(dir, 'done');
+        writeTree(targetDir, { 'docs/a.txt': 'existing a', 'other.txt': 'other' });
+
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        const result = await ops.decompress(archivePath, targetDir, { staged: true });
+        assert.deepEqual(readTree(targetDir), { 'docs/a.txt': 'archived a', 'docs/b.txt': 'archived b', 'other.txt': 'other', 'z.txt': 'archived z' });
+        assert.deepEqual(result.files.map(file => file.extractedPath).sort(), ['docs/a.txt', 'docs/b.txt', 'z.txt'].map(name => path.join(targetDir, name)));
+        assert.deepEqual(readdirSync(dir).filter(name => name.startsWith('.')), []);
+    });
+
+    it('leaves the target as it was when the move fails', async () => {
+        const targetDir = path.join(dir, 'failed');
+        // z.txt is a directory in the target, which a file cannot replace
+        writeTree(targetDir, { 'docs/a.txt': 'existing a', 'z.txt/inner.txt': 'inner' });
+        const before = readTree(targetDir);
+
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        await assert.rejects(ops.decompress(archivePath, targetDir, { staged: true }), { code: ArchiveErrorCode.INVALID_PATH });
+        assert.deepEqual(readTree(targetDir), before);
+        assert.equal(existsSync(path.join(targetDir, 'docs/b.txt')), false);
+        assert.deepEqual(readdirSync(dir).filter(name => name.startsWith('.')), []);
+    });
+});
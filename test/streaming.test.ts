@@ -0,0 +1,97 @@
+// test/streaming.test.ts
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'fs';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { ArchiveOps, ArchiveErrorCode, type FileInfo } from '../src/index.js';
+import { parseSltEntries } from '../src/utils/sltParser.js';
+import { SEVEN_ZIP, SKIP_WITHOUT_7ZA, createTempDir, removeTempDir } from './helpers.js';
+
+/** Entries in a streamed listing */
+const ENTRY_COUNT = 50;
+
+describe('parseSltEntries', () => {
+    it('yields each entry as soon as its block is complete', async () => {
+        const stdout = new PassThrough();
+        const entries = parseSltEntries(stdout);
+        stdout.write('--\nPath = a.7z\nType = 7z\n\n----------\nPath = first.txt\nSize = 1\n\nPath = second.txt\n');
+
+        // The first block is complete; the second is not, and the stream is still open
+        const first = await entries.next();
+        assert.equal(first.done, false);
+        assert.equal((first.value as FileInfo).filename, 'first.txt');
+
+        stdout.end('Size = 2\n');
+        const rest: FileInfo[] = [];
+        for await (const file of entries) {
+            rest.push(file);
+        }
+        assert.deepEqual(rest.map(file => [file.filename, file.size]), [['second.txt', 2]]);
+    });
+});
+
+describe('listEntriesStream with 7za', { skip: SKIP_WITHOUT_7ZA }, () => {
+    let dir: string;
+    let archivePath: string;
+    let encryptedPath: string;
+    let names: string[];
+
+    before(async () => {
+        dir = createTempDir();
+        names = Array.from({ length: ENTRY_COUNT }, (_, index) => `file-${String(index).padStart(2, '0')}.txt`);
+        for (const name of names) {
+            writeFileSync(path.join(dir, name), name);
+        }
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP });
+        archivePath = path.join(dir, 'many.7z');
+        await ops.compress(names.map(name => path.join(dir, name)), archivePath);
+        encryptedPath = path.join(dir, 'encrypted.7z');
+        await ops.compress(names.slice(0, 2).map(name => path.join(dir, name)), encryptedPath, { encryption: { password: 'secret' } });
+    });
+
+    after(() => removeTempDir(dir));
+
+    it('yields every entry and reports each to onEntry', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        const reported: string[] = [];
+        const streamed: string[] = [];
+        for await (const file of ops.listEntriesStream(archivePath, { onEntry: file => reported.push(file.filename) })) {
+            streamed.push(file.filename);
+        }
+        assert.deepEqual(streamed.sort(), names);
+        assert.deepEqual(reported.sort(), names);
+    });
+
+    it('stops 7za when the consumer stops early', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        let count = 0;
+        for await (const file of ops.listEntriesStream(archivePath)) {
+            assert.ok(file.filename);
+            if (++count === 3) {
+                break;
+            }
+        }
+        assert.equal(count, 3);
+
+        // The instance is free for the next operation
+        const result = await ops.listEntries(archivePath);
+        assert.equal(result.files.length, ENTRY_COUNT);
+    });
+
+    it('throws at the first encrypted entry without a password', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        const consume = async (): Promise<void> => {
+            for await (const file of ops.listEntriesStream(encryptedPath)) {
+                assert.fail(`${file.filename} should not be yielded`);
+            }
+        };
+        await assert.rejects(consume(), { code: ArchiveErrorCode.ENCRYPTED_ARCHIVE });
+
+        const files: FileInfo[] = [];
+        for await (const file of ops.listEntriesStream(encryptedPath, { password: 'secret' })) {
+            files.push(file);
+        }
+        assert.equal(files.length, 2);
+    });
+});
@@ -0,0 +1,90 @@
+// test/timestamps.test.ts
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { statSync, utimesSync, writeFileSync } from 'fs';
+import path from 'path';
+import { ArchiveOps, ArchiveErrorCode, ArchiveFormat, MtimePolicy, TimeZonePolicy } from '../src/index.js';
+import { parseSltString } from '../src/utils/sltParser.js';
+import { SEVEN_ZIP, SKIP_WITHOUT_7ZA, createTempDir, removeTempDir } from './helpers.js';
+
+/** Modification time of the archived files */
+const MTIME = new Date('2020-01-02T03:04:05Z');
+
+/**
+ * Date of a single entry listed as 'Modified = value'.
+ */
+function parseModified(value: string, timeZone?: TimeZonePolicy): Date | undefined {
+    return parseSltString(`----------\nPath = a.txt\nSize = 1\nModified = ${value}\n`, { timeZone })[0].date;
+}
+
+describe('-slt dates', () => {
+    it('reads dates in the time zone 7za listed them in', () => {
+        assert.equal(parseModified('2024-01-15 10:30:00', TimeZonePolicy.UTC)?.toISOString(), '2024-01-15T10:30:00.000Z');
+        // 7za converts with the current UTC offset, also for dates on the other side of a daylight saving change
+        const local = Date.UTC(2024, 0, 15, 10, 30, 0) + new Date().getTimezoneOffset() * 60 * 1000;
+        assert.equal(parseModified('2024-01-15 10:30:00')?.getTime(), local);
+        assert.equal(parseModified('2024-01-15 10:30:00', TimeZonePolicy.LOCAL)?.getTime(), local);
+    });
+
+    it('keeps fractions of a second to the millisecond', () => {
+        assert.equal(parseModified('2024-01-15 10:30:00.1234567', TimeZonePolicy.UTC)?.toISOString(), '2024-01-15T10:30:00.123Z');
+        assert.equal(parseModified('2024-01-15 10:30:00.5', TimeZonePolicy.UTC)?.toISOString(), '2024-01-15T10:30:00.500Z');
+    });
+
+    it('leaves missing and invalid dates undefined', () => {
+        for (const value of ['', '2024-13-01 00:00:00', '2024-02-30 00:00:00', '2024-01-15 24:00:00', '2024-01-15T10:30:00', 'yesterday']) {
+            assert.equal(parseModified(value, TimeZonePolicy.UTC), undefined, value);
+        }
+        assert.equal(parseSltString('----------\nPath = a.txt\nSize = 1\n')[0].date, undefined);
+    });
+});
+
+describe('timestamps with 7za', { skip: SKIP_WITHOUT_7ZA }, () => {
+    let dir: string;
+    const archivePaths = new Map<ArchiveFormat, string>();
+
+    before(async () => {
+        dir = createTempDir();
+        writeFileSync(path.join(dir, 'a.txt'), 'a');
+        utimesSync(path.join(dir, 'a.txt'), MTIME, MTIME);
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP });
+        for (const format of [ArchiveFormat.SEVEN_ZIP, ArchiveFormat.ZIP]) {
+            archivePaths.set(format, path.join(dir, `dated.${format}`));
+            await ops.compress([path.join(dir, 'a.txt')], archivePaths.get(format) as string, { format });
+        }
+    });
+
+    after(() => removeTempDir(dir));
+
+    for (const format of [ArchiveFormat.SEVEN_ZIP, ArchiveFormat.ZIP]) {
+        it(`lists the same ${format} date in either time zone policy`, async () => {
+            for (const timeZone of [TimeZonePolicy.LOCAL, TimeZonePolicy.UTC]) {
+                const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000, timeZone });
+                const { files } = await ops.listEntries(archivePaths.get(format) as string);
+                assert.equal(files[0].date?.getTime(), MTIME.getTime(), timeZone);
+            }
+        });
+    }
+
+    it('verifies and restores the times of extracted files', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        const archivePath = archivePaths.get(ArchiveFormat.SEVEN_ZIP) as string;
+
+        const verified = await ops.decompress(archivePath, path.join(dir, 'verified'), { mtimePolicy: MtimePolicy.VERIFY });
+        assert.deepEqual(verified.mtimeMismatches, []);
+
+        const kept = await ops.decompress(archivePath, path.join(dir, 'kept'));
+        assert.equal(kept.mtimeMismatches, undefined);
+
+        await ops.decompress(archivePath, path.join(dir, 'restored'), { mtimePolicy: MtimePolicy.RESTORE });
+        assert.equal(statSync(path.join(dir, 'restored', 'a.txt')).mtime.getTime(), MTIME.getTime());
+    });
+
+    it('rejects unknown policies', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        await assert.rejects(
+            ops.decompress(archivePaths.get(ArchiveFormat.SEVEN_ZIP) as string, path.join(dir, 'unknown'), { mtimePolicy: 'touch' as MtimePolicy }),
+            { code: ArchiveErrorCode.INVALID_OPTIONS }
+        );
+    });
+});
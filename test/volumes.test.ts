@@ -0,0 +1,171 @@
+// test/volumes.test.ts
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes } from 'crypto';
+import { mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import path from 'path';
+import { ArchiveOps, ArchiveErrorCode } from '../src/index.js';
+import {
+    findMissingVolumes,
+    findTruncatedVolume,
+    listVolumes,
+    volumeBasePath,
+    volumeIndex,
+    volumePath,
+} from '../src/utils/volumes.js';
+import { SEVEN_ZIP, SKIP_WITHOUT_7ZA, createTempDir, removeTempDir } from './helpers.js';
+
+describe('volume paths', () => {
+    it('reads and builds volume suffixes', () => {
+        assert.equal(volumeIndex('/a/data.zip.002'), 2);
+        assert.equal(volumeIndex('/a/data.zip.1000'), 1000);
+        assert.equal(volumeIndex('/a/data.zip'), null);
+        assert.equal(volumeIndex('/a/data.zip.01'), null);
+        assert.equal(volumeBasePath('/a/data.zip.001'), '/a/data.zip');
+        assert.equal(volumePath('/a/data.zip', 3), '/a/data.zip.003');
+    });
+
+    it('finds gaps between the first and the last volume', () => {
+        assert.deepEqual(findMissingVolumes(['/a/d.7z.001', '/a/d.7z.002', '/a/d.7z.005']), ['/a/d.7z.003', '/a/d.7z.004']);
+        assert.deepEqual(findMissingVolumes(['/a/d.7z.002']), ['/a/d.7z.001']);
+        assert.deepEqual(findMissingVolumes([]), []);
+    });
+
+    it('lists the volumes of a set in order', async () => {
+        const dir = createTempDir();
+        try {
+            for (const name of ['d.7z.010', 'd.7z.002', 'd.7z.001', 'd.7z', 'd.7z.tmp', 'other.7z.001']) {
+                writeFileSync(path.join(dir, name), '');
+            }
+            assert.deepEqual(await listVolumes(path.join(dir, 'd.7z.001')), ['d.7z.001', 'd.7z.002', 'd.7z.010'].map(name => path.join(dir, name)));
+            assert.deepEqual(await listVolumes(path.join(dir, 'missing', 'd.7z')), []);
+        } finally {
+            removeTempDir(dir);
+        }
+    });
+});
+
+describe('findTruncatedVolume', () => {
+    let dir: string;
+
+    before(() => {
+        dir = createTempDir();
+    });
+
+    after(() => removeTempDir(dir));
+
+    for (const [title, sizes, expected] of [
+        ['guesses the next volume when the last is as large as the first', [100, 100, 100], 'data.7z.004'],
+        ['keeps a set whose last volume is smaller', [100, 100, 40], null],
+        ['keeps a set whose last volume is larger', [100, 120], null],
+        ['does not guess for a single volume', [100], null],
+    ] as const) {
+        it(title, () => {
+            const setDir = path.join(dir, sizes.join('-'));
+            mkdirSync(setDir);
+            sizes.forEach((size, index) => {
+                writeFileSync(path.join(setDir, `data.7z.${String(index + 1).padStart(3, '0')}`), Buffer.alloc(size));
+            });
+
+            const guess = findTruncatedVolume(path.join(setDir, 'data.7z.001'));
+            assert.equal(guess && path.basename(guess), expected);
+        });
+    }
+});
+
+describe('volume sets with 7za', { skip: SKIP_WITHOUT_7ZA }, () => {
+    let dir: string;
+    let sourcePath: string;
+    let firstVolume: string;
+
+    before(async () => {
+        dir = createTempDir();
+        sourcePath = path.join(dir, 'random.bin');
+        writeFileSync(sourcePath, randomBytes(30000));
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        await ops.compress([sourcePath], path.join(dir, 'set', 'data.7z'), { volumeSize: 10000 });
+        firstVolume = path.join(dir, 'set', 'data.7z.001');
+    });
+
+    after(() => removeTempDir(dir));
+
+    it('splits an archive and reads it back from the first volume', async () => {
+        assert.deepEqual(readdirSync(path.join(dir, 'set')).sort(), ['data.7z.001', 'data.7z.002', 'data.7z.003', 'data.7z.004']);
+
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        const listed = await ops.listEntries(firstVolume);
+        assert.equal(listed.archiveInfo?.multivolume, true);
+        assert.equal(listed.archiveInfo?.volumes, 4);
+
+        const targetDir = path.join(dir, 'out');
+        await ops.decompress(firstVolume, targetDir);
+        assert.deepEqual(readFileSync(path.join(targetDir, 'random.bin')), readFileSync(sourcePath));
+    });
+
+    it('must be opened from the first volume', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        await assert.rejects(ops.listEntries(path.join(dir, 'set', 'data.7z.002')), { code: ArchiveErrorCode.INVALID_PATH });
+    });
+
+    it('reports gaps in the set', async () => {
+        const gapDir = path.join(dir, 'gap');
+        mkdirSync(gapDir);
+        for (const name of ['data.7z.001', 'data.7z.003', 'data.7z.004']) {
+            writeFileSync(path.join(gapDir, name), readFileSync(path.join(dir, 'set', name)));
+        }
+
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        await assert.rejects(ops.listEntries(path.join(gapDir, 'data.7z.001')), {
+            code: ArchiveErrorCode.MISSING_VOLUME,
+            details: { archivePath: path.join(gapDir, 'data.7z.001'), missingVolumes: ['data.7z.002'] },
+        });
+    });
+
+    it('cannot be modified', async () => {
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        await assert.rejects(ops.deleteEntries(firstVolume, ['random.bin']), { code: ArchiveErrorCode.INVALID_OPTIONS });
+    });
+});
+
+describe('damaged volume sets', { skip: SKIP_WITHOUT_7ZA }, () => {
+    let dir: string;
+    let sourcePath: string;
+
+    before(() => {
+        dir = createTempDir();
+        // Random content does not compress, so the volume count follows from the size
+        sourcePath = path.join(dir, 'random.bin');
+        writeFileSync(sourcePath, randomBytes(30000));
+    });
+
+    after(() => removeTempDir(dir));
+
+    it('reports missing trailing volumes', async () => {
+        const setDir = path.join(dir, 'truncated');
+        mkdirSync(setDir);
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        await ops.compress([sourcePath], path.join(setDir, 'data.7z'), { volumeSize: 10000 });
+        const volumes = readdirSync(setDir).sort();
+        assert.ok(volumes.length >= 3, `expected 3 or more volumes, got ${volumes.join(', ')}`);
+        rmSync(path.join(setDir, volumes[volumes.length - 1]));
+
+        await assert.rejects(ops.decompress(path.join(setDir, 'data.7z.001'), path.join(dir, 'out-truncated')), {
+            code: ArchiveErrorCode.MISSING_VOLUME,
+        });
+    });
+
+    it('reports a damaged single volume as corrupt', async () => {
+        const setDir = path.join(dir, 'single');
+        mkdirSync(setDir);
+        const ops = new ArchiveOps({ executablePath: SEVEN_ZIP, timeoutMs: 10000 });
+        await ops.compress([sourcePath], path.join(setDir, 'data.7z'), { volumeSize: 100000 });
+        const volumePath = path.join(setDir, 'data.7z.001');
+        const content = readFileSync(volumePath);
+        content.fill(0, 1000, 2000);
+        writeFileSync(volumePath, content);
+
+        await assert.rejects(ops.decompress(volumePath, path.join(dir, 'out-single')), {
+            code: ArchiveErrorCode.CORRUPT_ARCHIVE,
+        });
+    });
+});